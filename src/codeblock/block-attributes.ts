@@ -0,0 +1,74 @@
+/**
+ * Run options declared in a code fence's info string, e.g.
+ * ```` ```bash {cwd=backend shell=bash confirm env=NODE_ENV=test} ````
+ */
+export interface BlockAttributes {
+	// Working directory; relative to the note's folder, or to the vault root with a leading `/`
+	cwd?: string;
+	// Shell profile to run in, by profile name or shell executable
+	shell?: string;
+	// Ask before running
+	confirm: boolean;
+	// Extra environment variables for the shell
+	env: Record<string, string>;
+	// Paste into the terminal without pressing Enter
+	paste: boolean;
+}
+
+const ATTRIBUTE_BLOCK_PATTERN = /\{([^}]*)\}/;
+// Values may be quoted, in whole or in part (env=MSG="hello world")
+const ATTRIBUTE_PATTERN = /([A-Za-z][\w-]*)(?:=((?:"[^"]*"|'[^']*'|[^\s"'])+))?/g;
+
+/**
+ * Parse the `{...}` attributes of an info string (the part after the language)
+ * Unknown attributes are ignored so fences shared with other plugins still work.
+ */
+export function parseBlockAttributes(info: string): BlockAttributes {
+	const attributes: BlockAttributes = { confirm: false, env: {}, paste: false };
+
+	const block = ATTRIBUTE_BLOCK_PATTERN.exec(info);
+	if (!block) {
+		return attributes;
+	}
+
+	for (const match of block[1].matchAll(ATTRIBUTE_PATTERN)) {
+		const key = match[1].toLowerCase();
+		const value = match[2] !== undefined ? unquote(match[2]) : undefined;
+
+		switch (key) {
+			case 'cwd':
+				if (value) {
+					attributes.cwd = value;
+				}
+				break;
+			case 'shell':
+				if (value) {
+					attributes.shell = value;
+				}
+				break;
+			case 'confirm':
+				attributes.confirm = value === undefined || value === 'true';
+				break;
+			case 'paste':
+				attributes.paste = value === undefined || value === 'true';
+				break;
+			case 'env': {
+				// env=NAME=value; may be repeated
+				const separator = value?.indexOf('=') ?? -1;
+				if (value && separator > 0) {
+					attributes.env[value.slice(0, separator)] = unquote(value.slice(separator + 1));
+				}
+				break;
+			}
+		}
+	}
+
+	return attributes;
+}
+
+function unquote(value: string): string {
+	const quoted = value.length >= 2
+		&& (value[0] === '"' || value[0] === '\'')
+		&& value[value.length - 1] === value[0];
+	return quoted ? value.slice(1, -1) : value;
+}
@@ -0,0 +1,170 @@
+import { debounce, ItemView, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { CodeBlock, parseCodeBlocks } from './detector';
+
+export const CODE_BLOCK_LIST_VIEW_TYPE = 'code-unblock-code-blocks-view';
+
+// Delay before re-scanning after an edit
+const RESCAN_DELAY = 300;
+
+/**
+ * CodeBlockListView lists the runnable code blocks of the active note in a
+ * sidebar, each with a button that sends it to the terminal.
+ *
+ * Responsibilities:
+ * - Track the markdown file the user is working on
+ * - Re-scan the file when switching files and while editing
+ * - Render the block list and run blocks on request
+ */
+export class CodeBlockListView extends ItemView {
+	private plugin: CodeUnblockTerminalPlugin;
+	private file: TFile | null = null;
+	private blocks: CodeBlock[] = [];
+	private listEl: HTMLElement | null = null;
+	private scanVersion = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CodeUnblockTerminalPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return CODE_BLOCK_LIST_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Code blocks';
+	}
+
+	getIcon(): string {
+		return 'list';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('code-unblock-code-list');
+
+		container.createDiv({ cls: 'code-list-header', text: 'Code Blocks in Current File' });
+		this.listEl = container.createDiv('code-list-items');
+
+		const rescan = debounce(() => this.scan(), RESCAN_DELAY, true);
+
+		// Re-scan when switching files. Focusing this view also changes the
+		// active leaf, so only markdown leaves replace the tracked file.
+		this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
+			this.updateFile();
+		}));
+
+		// Re-scan while editing the tracked file
+		this.registerEvent(this.app.workspace.on('editor-change', (_editor, info) => {
+			if (info.file && info.file === this.file) {
+				rescan();
+			}
+		}));
+
+		// Re-scan when the file changes on disk
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file === this.file) {
+				rescan();
+			}
+		}));
+
+		this.updateFile();
+	}
+
+	async onClose(): Promise<void> {
+		this.listEl = null;
+		this.blocks = [];
+	}
+
+	/**
+	 * Track the active markdown file, if there is one
+	 */
+	private updateFile(): void {
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const file = markdownView?.file ?? null;
+		if (file && file !== this.file) {
+			this.file = file;
+			this.scan();
+		} else if (!this.file) {
+			this.render();
+		}
+	}
+
+	/**
+	 * Parse the tracked file and re-render the list
+	 * Open editors are read directly so unsaved edits are included
+	 */
+	private async scan(): Promise<void> {
+		const file = this.file;
+		if (!file) {
+			return;
+		}
+
+		const version = ++this.scanVersion;
+		const content = this.getEditorContent(file) ?? await this.app.vault.cachedRead(file);
+
+		// A newer scan started while reading
+		if (version !== this.scanVersion) {
+			return;
+		}
+
+		this.blocks = parseCodeBlocks(content).filter((block) => this.plugin.isRunnableLanguage(block.language));
+		this.render();
+	}
+
+	/**
+	 * Content of an open editor showing the file, if any
+	 */
+	private getEditorContent(file: TFile): string | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file === file) {
+				return view.editor.getValue();
+			}
+		}
+		return null;
+	}
+
+	private render(): void {
+		const listEl = this.listEl;
+		if (!listEl) {
+			return;
+		}
+		listEl.empty();
+
+		if (!this.file) {
+			listEl.createDiv({ cls: 'code-list-empty', text: 'Open a note to see its code blocks.' });
+			return;
+		}
+
+		if (this.blocks.length === 0) {
+			listEl.createDiv({ cls: 'code-list-empty', text: `No runnable code blocks in ${this.file.basename}.` });
+			return;
+		}
+
+		this.blocks.forEach((block, i) => {
+			const itemEl = listEl.createDiv('code-list-item');
+			const infoEl = itemEl.createDiv('code-list-item-info');
+
+			const title = block.heading ?? this.file?.basename ?? 'Code block';
+			infoEl.createDiv({
+				cls: 'code-list-item-title',
+				text: `${i + 1}. ${title} (line ${block.startLine + 1})`,
+			});
+			infoEl.createDiv({ cls: 'code-list-item-language', text: block.language });
+			infoEl.createDiv({ cls: 'code-list-item-preview', text: block.preview });
+
+			const runBtn = itemEl.createEl('button', {
+				text: '▶',
+				cls: 'code-list-run-btn',
+				attr: { 'aria-label': 'Run in terminal' },
+			});
+			// Elements are recreated on every render, so listeners go with them
+			runBtn.addEventListener('click', async () => {
+				await this.plugin.codeBlockExecutor.runBlock(block, { sourcePath: this.file?.path });
+			});
+		});
+	}
+}
@@ -0,0 +1,63 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Modal asking the user to confirm running a code block marked with the
+ * `confirm` attribute, showing the exact code that will be sent
+ */
+export class ConfirmRunModal extends Modal {
+	private code: string;
+	private details: string[];
+	private resolve: ((confirmed: boolean) => void) | null = null;
+
+	/**
+	 * @param details Extra lines describing where the code runs, e.g. the working directory
+	 */
+	constructor(app: App, code: string, details: string[]) {
+		super(app);
+		this.code = code;
+		this.details = details;
+	}
+
+	/**
+	 * Open the modal and wait for the user
+	 * @returns Whether the user chose to run the code
+	 */
+	prompt(): Promise<boolean> {
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText('Run code block?');
+		for (const detail of this.details) {
+			contentEl.createDiv({ cls: 'code-unblock-confirm-detail', text: detail });
+		}
+		contentEl.createEl('pre', { cls: 'code-unblock-parameter-preview', text: this.code });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Run')
+				.setWarning()
+				.onClick(() => {
+					this.resolve?.(true);
+					this.resolve = null;
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+
+		// Closing without confirming cancels the run
+		this.resolve?.(false);
+		this.resolve = null;
+	}
+}
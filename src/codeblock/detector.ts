@@ -0,0 +1,138 @@
+/**
+ * A fenced code block found in a markdown document
+ */
+export interface CodeBlock {
+	// Position of the block among all fenced blocks in the document
+	index: number;
+	// Lowercased language from the info string ('' when none)
+	language: string;
+	// Rest of the info string after the language
+	info: string;
+	// Block content without the fences
+	code: string;
+	// Zero-based line of the opening fence
+	startLine: number;
+	// Zero-based line of the closing fence (last line of the document if unclosed)
+	endLine: number;
+	// Text of the nearest heading above the block
+	heading: string | null;
+	// First non-empty line of the block
+	preview: string;
+}
+
+/**
+ * Fence languages that can be sent to a shell
+ */
+export const SHELL_LANGUAGES = ['bash', 'sh', 'shell', 'zsh', 'fish', 'powershell', 'ps', 'ps1', 'pwsh'];
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Check whether a fence language is runnable in a terminal
+ */
+export function isShellLanguage(language: string): boolean {
+	return SHELL_LANGUAGES.includes(language.toLowerCase());
+}
+
+/**
+ * Parse all fenced code blocks in a markdown document
+ *
+ * Follows CommonMark fence rules: a block opened with N backticks (or
+ * tildes) is closed by a line of at least N of the same character. Fences
+ * indented inside list items are supported; the fence's indentation is
+ * stripped from the block's lines.
+ */
+export function parseCodeBlocks(content: string): CodeBlock[] {
+	const lines = content.split(/\r?\n/);
+	const blocks: CodeBlock[] = [];
+	let heading: string | null = null;
+	let lineIndex = skipFrontmatter(lines);
+
+	while (lineIndex < lines.length) {
+		const line = lines[lineIndex];
+		const fence = FENCE_PATTERN.exec(line);
+
+		if (!fence || (fence[2][0] === '`' && fence[3].includes('`'))) {
+			// Track headings outside of code blocks
+			const headingMatch = HEADING_PATTERN.exec(line);
+			if (headingMatch) {
+				heading = headingMatch[1];
+			}
+			lineIndex++;
+			continue;
+		}
+
+		const indent = fence[1].length;
+		const marker = fence[2];
+		const infoString = fence[3].trim();
+		// Attributes may follow the language without a space: ```bash{cwd=src}
+		const language = /^[^\s{]*/.exec(infoString)?.[0] ?? '';
+
+		// Find the closing fence
+		const startLine = lineIndex;
+		const codeLines: string[] = [];
+		lineIndex++;
+		while (lineIndex < lines.length && !isClosingFence(lines[lineIndex], marker)) {
+			codeLines.push(stripIndent(lines[lineIndex], indent));
+			lineIndex++;
+		}
+		const endLine = Math.min(lineIndex, lines.length - 1);
+
+		const code = codeLines.join('\n');
+		blocks.push({
+			index: blocks.length,
+			language: language.toLowerCase(),
+			info: infoString.slice(language.length).trim(),
+			code,
+			startLine,
+			endLine,
+			heading,
+			preview: codeLines.find((l) => l.trim().length > 0)?.trim() ?? '',
+		});
+
+		lineIndex++;
+	}
+
+	return blocks;
+}
+
+/**
+ * Find the code block containing a (zero-based) line, fences included
+ */
+export function findCodeBlockAtLine(blocks: CodeBlock[], line: number): CodeBlock | null {
+	return blocks.find((block) => line >= block.startLine && line <= block.endLine) ?? null;
+}
+
+/**
+ * Index of the first line after YAML frontmatter (0 when there is none)
+ */
+function skipFrontmatter(lines: string[]): number {
+	if (lines[0] !== '---') {
+		return 0;
+	}
+	for (let i = 1; i < lines.length; i++) {
+		if (lines[i] === '---' || lines[i] === '...') {
+			return i + 1;
+		}
+	}
+	return 0;
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+	const trimmed = line.trim();
+	return trimmed.length >= marker.length
+		&& trimmed[0] === marker[0]
+		&& /^(`+|~+)$/.test(trimmed);
+}
+
+/**
+ * Remove up to `indent` leading spaces from a line
+ */
+function stripIndent(line: string, indent: number): string {
+	let i = 0;
+	while (i < indent && i < line.length && (line[i] === ' ' || line[i] === '\t')) {
+		i++;
+	}
+	return line.slice(i);
+}
@@ -0,0 +1,132 @@
+import { debounce, Debouncer, editorInfoField, setIcon } from 'obsidian';
+import { RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import CodeUnblockTerminalPlugin from '../main';
+import { CodeBlock, parseCodeBlocks } from './detector';
+
+// Delay before re-scanning the note after an edit
+const RESCAN_DELAY = 300;
+
+// Asks the editor's run button plugin to re-scan the note
+const rescanEffect = StateEffect.define<null>();
+
+/**
+ * Run button shown at the end of a shell fence's opening line
+ */
+class RunWidget extends WidgetType {
+	private plugin: CodeUnblockTerminalPlugin;
+	private block: CodeBlock;
+	private sourcePath: string | undefined;
+
+	constructor(plugin: CodeUnblockTerminalPlugin, block: CodeBlock, sourcePath: string | undefined) {
+		super();
+		this.plugin = plugin;
+		this.block = block;
+		this.sourcePath = sourcePath;
+	}
+
+	eq(other: RunWidget): boolean {
+		return other.block.code === this.block.code
+			&& other.block.language === this.block.language
+			&& other.block.info === this.block.info
+			&& other.sourcePath === this.sourcePath;
+	}
+
+	toDOM(): HTMLElement {
+		const button = createEl('button', {
+			cls: 'code-unblock-editor-run-btn',
+			attr: { 'aria-label': 'Run in terminal' },
+		});
+		setIcon(button, 'play');
+
+		// Keep the editor from moving the cursor into the fence
+		button.addEventListener('mousedown', (evt) => evt.preventDefault());
+		button.addEventListener('click', async (evt) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			await this.plugin.codeBlockExecutor.runBlock(this.block, { sourcePath: this.sourcePath });
+		});
+
+		return button;
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+}
+
+/**
+ * Find the shell code blocks of the document
+ */
+function scanBlocks(plugin: CodeUnblockTerminalPlugin, view: EditorView): CodeBlock[] {
+	return parseCodeBlocks(view.state.doc.toString())
+		.filter(block => plugin.isRunnableLanguage(block.language));
+}
+
+/**
+ * Build run widgets for the blocks whose opening fence is on screen
+ * @param blocks Blocks scanned from the current document
+ */
+function buildDecorations(plugin: CodeUnblockTerminalPlugin, view: EditorView, blocks: CodeBlock[]): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	const { doc } = view.state;
+	const sourcePath = view.state.field(editorInfoField, false)?.file?.path;
+
+	for (const block of blocks) {
+		const line = doc.line(block.startLine + 1);
+		if (!view.visibleRanges.some(range => line.to >= range.from && line.from <= range.to)) {
+			continue;
+		}
+
+		builder.add(line.to, line.to, Decoration.widget({
+			widget: new RunWidget(plugin, block, sourcePath),
+			side: 1,
+		}));
+	}
+
+	return builder.finish();
+}
+
+/**
+ * Create the editor extension that adds run buttons to shell code fences in
+ * Live Preview and source mode
+ *
+ * The note is re-scanned once typing pauses; until then the buttons move
+ * along with the edits. Scrolling only rebuilds the buttons on screen.
+ */
+export function createRunButtonExtension(plugin: CodeUnblockTerminalPlugin) {
+	return ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+		private blocks: CodeBlock[];
+		// Blocks no longer match the document until the next scan
+		private stale = false;
+		private rescan: Debouncer<[], void>;
+
+		constructor(view: EditorView) {
+			this.blocks = scanBlocks(plugin, view);
+			this.decorations = buildDecorations(plugin, view, this.blocks);
+			this.rescan = debounce(() => view.dispatch({ effects: rescanEffect.of(null) }), RESCAN_DELAY, true);
+		}
+
+		update(update: ViewUpdate) {
+			const rescanRequested = update.transactions.some(tr => tr.effects.some(effect => effect.is(rescanEffect)));
+			if (rescanRequested) {
+				this.blocks = scanBlocks(plugin, update.view);
+				this.stale = false;
+				this.decorations = buildDecorations(plugin, update.view, this.blocks);
+			} else if (update.docChanged) {
+				this.stale = true;
+				this.decorations = this.decorations.map(update.changes);
+				this.rescan();
+			} else if (update.viewportChanged && !this.stale) {
+				this.decorations = buildDecorations(plugin, update.view, this.blocks);
+			}
+		}
+
+		destroy() {
+			this.rescan.cancel();
+		}
+	}, {
+		decorations: (value) => value.decorations,
+	});
+}
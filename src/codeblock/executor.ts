@@ -0,0 +1,293 @@
+import { Notice, TFile } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { ShellManager, ShellProfile } from '../terminal/shell-manager';
+import { BlockAttributes, parseBlockAttributes } from './block-attributes';
+import { ConfirmRunModal } from './confirm-modal';
+import { CodeBlock, isShellLanguage } from './detector';
+import { ParameterModal } from './parameter-modal';
+import { writeOutputBlock } from './output-writer';
+import { CommandResult, TrackedCommand } from './tracked-command';
+import { toPlainText } from '../utils/ansi';
+import { getFolderPath } from './variable-manager';
+import { detectVariables, getVariableSyntax, substituteVariables } from './variable-parser';
+
+export interface RunOptions {
+	// Press Enter after pasting (default: true unless the block has the paste attribute)
+	execute?: boolean;
+	// Run in a session of this profile, overriding the block's shell attribute and language
+	profile?: ShellProfile;
+	// Fence language, used to pick the shell and detect script parameters
+	language?: string;
+	// Note the code comes from, used to look up note and folder variables and resolve cwd
+	sourcePath?: string;
+	// Fence info string after the language, holding the block's run attributes
+	info?: string;
+}
+
+/**
+ * Code ready to send, with the shell to send it to
+ */
+interface PreparedRun {
+	shellManager: ShellManager;
+	code: string;
+	execute: boolean;
+}
+
+/**
+ * CodeBlockExecutor sends code from notes to the terminal.
+ *
+ * Responsibilities:
+ * - Open the terminal panel if it is hidden
+ * - Ask for undefined script parameters and substitute them
+ * - Apply the block's attributes (working directory, shell, env, confirm, paste)
+ * - Pick the shell session the code runs in from the block's shell or language
+ * - Type the code into the shell as if the user had pasted it
+ */
+export class CodeBlockExecutor {
+	private plugin: CodeUnblockTerminalPlugin;
+
+	constructor(plugin: CodeUnblockTerminalPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Run a code block in the active terminal session
+	 */
+	async runBlock(block: CodeBlock, options: RunOptions = {}): Promise<boolean> {
+		return this.run(block.code, { language: block.language, info: block.info, ...options });
+	}
+
+	/**
+	 * Send code to the active terminal session, opening the terminal if needed
+	 * @returns Whether the code was sent
+	 */
+	async run(code: string, options: RunOptions = {}): Promise<boolean> {
+		const prepared = await this.prepare(code, options);
+		if (!prepared) {
+			return false;
+		}
+
+		try {
+			prepared.shellManager.sendText(prepared.code, prepared.execute);
+			return true;
+		} catch (error) {
+			console.error('Failed to run code block:', error);
+			new Notice('Failed to run code block. Check console for details.');
+			return false;
+		}
+	}
+
+	/**
+	 * Run a code block and track when it finishes, for runbooks and output capture
+	 * The block always executes, even with the paste attribute.
+	 * @returns The running command, or null if it was not started
+	 */
+	async runBlockTracked(block: CodeBlock, options: RunOptions = {}): Promise<TrackedCommand | null> {
+		const prepared = await this.prepare(block.code, { language: block.language, info: block.info, ...options });
+		if (!prepared) {
+			return null;
+		}
+
+		try {
+			return new TrackedCommand(prepared.shellManager, prepared.code);
+		} catch (error) {
+			console.error('Failed to run code block:', error);
+			new Notice(`Failed to run code block: ${error instanceof Error ? error.message : error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Run a code block and write what it printed, with its exit code, into
+	 * an `output` block below it in the note
+	 * Gives up with a notice if the shell is busy with another program and
+	 * never starts the block.
+	 * @returns Whether the output was written
+	 */
+	async runBlockAndCapture(block: CodeBlock, file: TFile, options: RunOptions = {}): Promise<boolean> {
+		const command = await this.runBlockTracked(block, { ...options, sourcePath: file.path });
+		if (!command) {
+			return false;
+		}
+
+		let result: CommandResult;
+		try {
+			result = await command.result;
+		} catch (error) {
+			new Notice(`Output not captured: ${error instanceof Error ? error.message : error}`);
+			return false;
+		}
+
+		const written = await writeOutputBlock(this.plugin.app, file, block, toPlainText(result.output), result.exitCode);
+		if (!written) {
+			new Notice('Output not captured: the code block was changed while it ran');
+		}
+		return written;
+	}
+
+	/**
+	 * Resolve everything needed to run code: the shell, its working
+	 * directory and environment, parameter values and confirmation
+	 * @returns null if the code should not run; the user has been told why
+	 */
+	private async prepare(code: string, options: RunOptions): Promise<PreparedRun | null> {
+		const { language, sourcePath } = options;
+		const attributes = parseBlockAttributes(options.info ?? '');
+		const execute = options.execute ?? !attributes.paste;
+
+		if (!code.trim()) {
+			new Notice('Code block is empty');
+			return null;
+		}
+
+		let profile = options.profile;
+		if (!profile && attributes.shell) {
+			profile = ShellManager.findProfile(await this.plugin.getProfiles(), attributes.shell) ?? undefined;
+			if (!profile) {
+				new Notice(`Shell "${attributes.shell}" is not available`);
+				return null;
+			}
+		}
+		if (!profile && language) {
+			const routed = await this.findLanguageProfile(language);
+			if (routed === null) {
+				new Notice(`No shell found for ${language} code blocks. Check the language shells in settings.`);
+				return null;
+			}
+			profile = routed;
+		}
+
+		let cwd: string | undefined;
+		if (attributes.cwd) {
+			const resolved = this.resolveWorkingDirectory(attributes.cwd, sourcePath);
+			if (!resolved) {
+				new Notice(`Working directory not found: ${attributes.cwd}`);
+				return null;
+			}
+			cwd = resolved;
+		}
+
+		const substituted = await this.substituteParameters(code, language ?? 'bash', sourcePath);
+		if (substituted === null) {
+			return null;
+		}
+
+		if (attributes.confirm && !await this.confirmRun(substituted, attributes, profile, cwd)) {
+			return null;
+		}
+
+		try {
+			await this.plugin.openTerminalView();
+
+			const env = Object.keys(attributes.env).length > 0 ? attributes.env : undefined;
+			const shellManager = await this.plugin.getTerminalView()?.ensureShellManager(profile, { cwd, env });
+			if (!shellManager) {
+				new Notice('No terminal available to run the code block');
+				return null;
+			}
+
+			return { shellManager, code: substituted, execute };
+		} catch (error) {
+			console.error('Failed to run code block:', error);
+			new Notice('Failed to run code block. Check console for details.');
+			return null;
+		}
+	}
+
+	/**
+	 * Fill in the script parameters a block references, asking for any
+	 * without a known value
+	 * @returns The code to run, or null if the user cancelled
+	 */
+	private async substituteParameters(code: string, language: string, sourcePath?: string): Promise<string | null> {
+		// `$` means something else in REPL languages such as JavaScript
+		if (!this.plugin.settings.promptForVariables || !isShellLanguage(language)) {
+			return code;
+		}
+
+		const syntax = getVariableSyntax(language);
+		const names = detectVariables(code, syntax);
+		if (names.length === 0) {
+			return code;
+		}
+
+		const variableManager = this.plugin.variableManager;
+		const values = variableManager.resolve(names, syntax, sourcePath);
+		const missing = names.filter((name) => !(name in values));
+
+		if (missing.length > 0) {
+			const canSaveToFolder = sourcePath !== undefined && getFolderPath(sourcePath) !== '';
+			const result = await new ParameterModal(this.plugin.app, code, syntax, missing, values, canSaveToFolder).prompt();
+			if (!result) {
+				return null;
+			}
+			await variableManager.remember(result.values, result.remember, sourcePath);
+			Object.assign(values, result.values);
+		}
+
+		return substituteVariables(code, values, syntax);
+	}
+
+	/**
+	 * Profile configured for a fence language
+	 * @returns undefined when the language is not routed or its shell is missing
+	 *   but the code can still run in any shell, null when it cannot
+	 */
+	private async findLanguageProfile(language: string): Promise<ShellProfile | null | undefined> {
+		const mapping = this.plugin.settings.languageProfiles[language.toLowerCase()];
+		if (!mapping) {
+			return undefined;
+		}
+
+		// Alternatives are comma-separated, e.g. "pwsh, powershell"
+		const profiles = await this.plugin.getProfiles();
+		for (const query of mapping.split(',')) {
+			const profile = query.trim() ? ShellManager.findProfile(profiles, query) : null;
+			if (profile) {
+				return profile;
+			}
+		}
+
+		// Shell code falls back to the focused terminal; other languages need their interpreter
+		return isShellLanguage(language) ? undefined : null;
+	}
+
+	/**
+	 * Absolute path of a cwd attribute, or null if the directory does not exist
+	 * Paths starting with `/` are relative to the vault root, others to the note's folder.
+	 */
+	private resolveWorkingDirectory(cwd: string, sourcePath?: string): string | null {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!('basePath' in adapter) || typeof adapter.basePath !== 'string') {
+			return null;
+		}
+
+		const path = require('path');
+		const fs = require('fs');
+		const vaultRelative = cwd.startsWith('/')
+			? cwd.slice(1)
+			: path.posix.join(getFolderPath(sourcePath ?? ''), cwd);
+		const resolved = path.join(adapter.basePath, vaultRelative);
+
+		try {
+			return fs.statSync(resolved).isDirectory() ? resolved : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private confirmRun(code: string, attributes: BlockAttributes, profile: ShellProfile | undefined, cwd: string | undefined): Promise<boolean> {
+		const details: string[] = [];
+		if (profile) {
+			details.push(`Shell: ${profile.name}`);
+		}
+		if (cwd) {
+			details.push(`Working directory: ${cwd}`);
+		}
+		for (const [name, value] of Object.entries(attributes.env)) {
+			details.push(`Environment: ${name}=${value}`);
+		}
+		return new ConfirmRunModal(this.plugin.app, code, details).prompt();
+	}
+}
+
@@ -0,0 +1,73 @@
+import { App, TFile } from 'obsidian';
+import { CodeBlock, parseCodeBlocks } from './detector';
+
+// Language of the fenced block holding a command's captured output
+export const OUTPUT_LANGUAGE = 'output';
+
+/**
+ * Write a command's output into a note as an `output` block right after the
+ * code block that produced it, replacing the output of a previous run
+ *
+ * The note is re-read when writing, so edits made while the command ran are
+ * kept; the source block is found again by its content.
+ * @returns Whether the source block was found and the output written
+ */
+export async function writeOutputBlock(app: App, file: TFile, source: CodeBlock, output: string, exitCode: number): Promise<boolean> {
+	let written = false;
+
+	await app.vault.process(file, (content) => {
+		const newline = content.includes('\r\n') ? '\r\n' : '\n';
+		const lines = content.split(/\r?\n/);
+		const blocks = parseCodeBlocks(content);
+
+		const block = findSourceBlock(blocks, source);
+		if (!block) {
+			return content;
+		}
+
+		const indent = /^\s*/.exec(lines[block.startLine])?.[0] ?? '';
+		const outputLines = buildOutputBlock(output, exitCode).map((line) => line ? indent + line : line);
+
+		// Replace the output block directly below, allowing one blank line between
+		const previous = blocks.find((b) => b.language === OUTPUT_LANGUAGE
+			&& b.startLine > block.endLine
+			&& b.startLine <= block.endLine + 2
+			&& lines.slice(block.endLine + 1, b.startLine).every((line) => !line.trim()));
+
+		if (previous) {
+			lines.splice(previous.startLine, previous.endLine - previous.startLine + 1, ...outputLines);
+		} else {
+			lines.splice(block.endLine + 1, 0, '', ...outputLines);
+		}
+
+		written = true;
+		return lines.join(newline);
+	});
+
+	return written;
+}
+
+/**
+ * Find the block in the current content, preferring the same position
+ */
+function findSourceBlock(blocks: CodeBlock[], source: CodeBlock): CodeBlock | null {
+	const sameContent = blocks.filter((b) => b.code === source.code && b.language === source.language);
+	return sameContent.find((b) => b.startLine === source.startLine)
+		?? sameContent.find((b) => b.index === source.index)
+		?? sameContent[0]
+		?? null;
+}
+
+function buildOutputBlock(output: string, exitCode: number): string[] {
+	const body = output.replace(/\s+$/, '');
+
+	// The fence must be longer than any backtick run in the output
+	const longestRun = Math.max(0, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+	return [
+		`${fence}${OUTPUT_LANGUAGE} {exit=${exitCode}}`,
+		...(body ? body.split('\n') : []),
+		fence,
+	];
+}
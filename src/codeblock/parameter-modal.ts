@@ -0,0 +1,150 @@
+import { App, Modal, Setting } from 'obsidian';
+import { RememberScope } from './variable-manager';
+import { substituteVariables, VariableSyntax } from './variable-parser';
+
+export interface ParameterModalResult {
+	values: Record<string, string>;
+	remember: RememberScope;
+}
+
+/**
+ * Modal asking for the values of undefined script parameters before a code
+ * block runs, with a preview of the command after substitution
+ */
+export class ParameterModal extends Modal {
+	private code: string;
+	private syntax: VariableSyntax;
+	private names: string[];
+	private knownValues: Record<string, string>;
+	private canSaveToFolder: boolean;
+	private values: Record<string, string> = {};
+	private remember: RememberScope = 'session';
+	private previewEl: HTMLElement | null = null;
+	private resolve: ((result: ParameterModalResult | null) => void) | null = null;
+
+	/**
+	 * @param names Variables to ask for
+	 * @param knownValues Values already known for other variables in the code, used in the preview
+	 * @param canSaveToFolder Whether the code comes from a note whose folder values can be saved for
+	 */
+	constructor(app: App, code: string, syntax: VariableSyntax, names: string[], knownValues: Record<string, string>, canSaveToFolder: boolean) {
+		super(app);
+		this.code = code;
+		this.syntax = syntax;
+		this.names = names;
+		this.knownValues = knownValues;
+		this.canSaveToFolder = canSaveToFolder;
+	}
+
+	/**
+	 * Open the modal and wait for the user
+	 * @returns The entered values, or null if cancelled
+	 */
+	prompt(): Promise<ParameterModalResult | null> {
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('code-unblock-parameter-modal');
+
+		this.titleEl.setText('Script Parameters');
+		contentEl.createEl('p', { text: 'The following variables are undefined:' });
+
+		this.names.forEach((name, i) => {
+			new Setting(contentEl)
+				.setName(name)
+				.addText(text => {
+					text.onChange((value) => {
+						this.values[name] = value;
+						this.updatePreview();
+					});
+					text.inputEl.addEventListener('keydown', (evt) => {
+						if (evt.key === 'Enter') {
+							evt.preventDefault();
+							this.submit();
+						}
+					});
+					if (i === 0) {
+						// Focus once the modal is attached
+						window.setTimeout(() => text.inputEl.focus(), 0);
+					}
+				});
+		});
+
+		new Setting(contentEl)
+			.setName('Remember values')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('none', 'Only for this run')
+					.addOption('session', 'For this session');
+				if (this.canSaveToFolder) {
+					dropdown.addOption('folder', 'For notes in this folder');
+				}
+				dropdown
+					.addOption('vault', 'For the whole vault')
+					.setValue(this.remember)
+					.onChange((value) => {
+						this.remember = value as RememberScope;
+					});
+			});
+
+		contentEl.createDiv({ cls: 'code-unblock-parameter-preview-label', text: 'Preview' });
+		this.previewEl = contentEl.createEl('pre', { cls: 'code-unblock-parameter-preview' });
+		this.updatePreview();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Run with Parameters')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.previewEl = null;
+
+		// Closing without submitting cancels the run
+		this.resolve?.(null);
+		this.resolve = null;
+	}
+
+	private submit(): void {
+		this.resolve?.({ values: this.getEnteredValues(), remember: this.remember });
+		this.resolve = null;
+		this.close();
+	}
+
+	/**
+	 * Values for every prompted variable; fields left untouched are empty
+	 */
+	private getEnteredValues(): Record<string, string> {
+		const values: Record<string, string> = {};
+		for (const name of this.names) {
+			values[name] = this.values[name] ?? '';
+		}
+		return values;
+	}
+
+	private updatePreview(): void {
+		if (!this.previewEl) {
+			return;
+		}
+
+		// Keep unfilled references visible instead of substituting empty strings
+		const filled: Record<string, string> = { ...this.knownValues };
+		for (const [name, value] of Object.entries(this.values)) {
+			if (value) {
+				filled[name] = value;
+			}
+		}
+		this.previewEl.setText(substituteVariables(this.code, filled, this.syntax));
+	}
+}
@@ -0,0 +1,123 @@
+import { MarkdownPostProcessorContext, Menu, Notice, setIcon, TFile } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { CodeBlock, findCodeBlockAtLine, parseCodeBlocks } from './detector';
+
+const LANGUAGE_CLASS_PREFIX = 'language-';
+
+/**
+ * Register a markdown post-processor that adds hover buttons to shell code
+ * blocks in reading view:
+ * - Run: paste the block into the terminal and press Enter
+ * - Copy to terminal: paste without executing
+ * - Run and capture: run and write the output into the note below the block
+ * - Run in...: pick the shell profile to run the block in
+ */
+export function registerRunButtons(plugin: CodeUnblockTerminalPlugin): void {
+	plugin.registerMarkdownPostProcessor((el, ctx) => {
+		if (!plugin.settings.showRunButtons) {
+			return;
+		}
+
+		el.querySelectorAll('pre > code').forEach((codeEl) => {
+			const language = getLanguage(codeEl);
+			const preEl = codeEl.parentElement;
+			if (!language || !preEl || !plugin.isRunnableLanguage(language)) {
+				return;
+			}
+
+			addToolbar(plugin, preEl, codeEl as HTMLElement, language, ctx, el);
+		});
+	});
+}
+
+/**
+ * Language of a rendered code element, from its `language-*` class
+ */
+function getLanguage(codeEl: Element): string | null {
+	for (const cls of Array.from(codeEl.classList)) {
+		if (cls.startsWith(LANGUAGE_CLASS_PREFIX)) {
+			return cls.slice(LANGUAGE_CLASS_PREFIX.length).toLowerCase();
+		}
+	}
+	return null;
+}
+
+function addToolbar(plugin: CodeUnblockTerminalPlugin, preEl: HTMLElement, codeEl: HTMLElement, language: string, ctx: MarkdownPostProcessorContext, sectionEl: HTMLElement): void {
+	// Post-processors can run more than once for the same element
+	if (preEl.querySelector('.code-unblock-run-toolbar')) {
+		return;
+	}
+
+	preEl.addClass('code-unblock-runnable');
+	const toolbar = preEl.createDiv('code-unblock-run-toolbar');
+
+	// Read the code when clicked so re-rendered content is picked up
+	const getCode = () => codeEl.textContent ?? '';
+	const getOptions = () => ({ language, sourcePath: ctx.sourcePath, info: getBlock(ctx, sectionEl)?.info });
+
+	const runBtn = createToolbarButton(toolbar, 'play', 'Run in terminal');
+	runBtn.addEventListener('click', async (evt) => {
+		evt.preventDefault();
+		await plugin.codeBlockExecutor.run(getCode(), getOptions());
+	});
+
+	const pasteBtn = createToolbarButton(toolbar, 'clipboard-paste', 'Copy to terminal');
+	pasteBtn.addEventListener('click', async (evt) => {
+		evt.preventDefault();
+		await plugin.codeBlockExecutor.run(getCode(), { ...getOptions(), execute: false });
+	});
+
+	const captureBtn = createToolbarButton(toolbar, 'file-output', 'Run and capture output');
+	captureBtn.addEventListener('click', async (evt) => {
+		evt.preventDefault();
+
+		const block = getBlock(ctx, sectionEl);
+		const file = plugin.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		if (!block || !(file instanceof TFile)) {
+			new Notice('Could not find this code block in the note');
+			return;
+		}
+		await plugin.codeBlockExecutor.runBlockAndCapture(block, file);
+	});
+
+	const profileBtn = createToolbarButton(toolbar, 'chevron-down', 'Run in...');
+	profileBtn.addEventListener('click', async (evt) => {
+		evt.preventDefault();
+
+		const menu = new Menu();
+		const profiles = await plugin.getProfiles();
+		if (profiles.length === 0) {
+			menu.addItem((item) => item.setTitle('No shells found').setDisabled(true));
+		}
+		for (const profile of profiles) {
+			menu.addItem((item) => item
+				.setTitle(`Run in ${profile.name}`)
+				.setIcon('terminal')
+				.onClick(async () => {
+					await plugin.codeBlockExecutor.run(getCode(), { ...getOptions(), profile });
+				}));
+		}
+		menu.showAtMouseEvent(evt);
+	});
+}
+
+/**
+ * Source of the rendered code block, read from the note since the rendered
+ * element only keeps the code and language
+ */
+function getBlock(ctx: MarkdownPostProcessorContext, sectionEl: HTMLElement): CodeBlock | null {
+	const section = ctx.getSectionInfo(sectionEl);
+	if (!section) {
+		return null;
+	}
+	return findCodeBlockAtLine(parseCodeBlocks(section.text), section.lineStart);
+}
+
+function createToolbarButton(toolbar: HTMLElement, icon: string, label: string): HTMLElement {
+	const button = toolbar.createEl('button', {
+		cls: 'code-unblock-run-btn',
+		attr: { 'aria-label': label },
+	});
+	setIcon(button, icon);
+	return button;
+}
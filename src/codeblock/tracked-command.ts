@@ -0,0 +1,214 @@
+import { getExecutableName, ShellManager } from '../terminal/shell-manager';
+
+/**
+ * Outcome of a tracked command
+ */
+export interface CommandResult {
+	exitCode: number;
+	// Everything the command printed, including ANSI escape sequences
+	output: string;
+}
+
+// Private OSC number for the markers; xterm silently drops unknown OSC sequences
+const MARKER_OSC = 7373;
+const ESC = '\x1b';
+const BEL = '\x07';
+
+// Output kept once a command prints more than this many characters
+const MAX_OUTPUT_LENGTH = 1024 * 1024;
+
+// Characters of earlier output searched again, to find markers split across chunks
+const MARKER_OVERLAP = 64;
+
+// Time the shell has to start the command; it is busy with another program
+// (a server, a REPL) if it takes longer
+const START_TIMEOUT = 30 * 1000;
+
+type MarkerStyle = 'posix' | 'fish' | 'powershell';
+
+/**
+ * TrackedCommand runs code in a shell and reports when it has finished.
+ *
+ * The code is pasted between two marker commands that print invisible OSC
+ * sequences: one before the code runs and one with its exit status after.
+ * The shell's raw output is watched for them, so the result holds exactly
+ * what the command printed.
+ */
+export class TrackedCommand {
+	private static nextId = 1;
+
+	readonly result: Promise<CommandResult>;
+	private shellManager: ShellManager;
+	private id: string;
+	private buffer = '';
+	private started = false;
+	private finished = false;
+	private startTimer: ReturnType<typeof setTimeout> | null = null;
+	private resolveResult: ((result: CommandResult) => void) | null = null;
+	private rejectResult: ((error: Error) => void) | null = null;
+
+	// Track shell event listeners for cleanup
+	private shellEventListeners: Array<{
+		event: string;
+		handler: (...args: any[]) => void;
+	}> = [];
+
+	/**
+	 * Start running code in a shell
+	 * @throws If the shell is not running or cannot report exit codes (e.g. a REPL)
+	 */
+	constructor(shellManager: ShellManager, code: string) {
+		const profile = shellManager.getCurrentProfile();
+		const style = profile ? getMarkerStyle(profile.shell) : null;
+		if (!style) {
+			throw new Error(`Cannot track commands in ${profile?.name ?? 'this terminal'}`);
+		}
+
+		this.shellManager = shellManager;
+		this.id = `${Date.now().toString(36)}-${TrackedCommand.nextId++}`;
+		this.result = new Promise((resolve, reject) => {
+			this.resolveResult = resolve;
+			this.rejectResult = reject;
+		});
+
+		const dataHandler = (data: string) => this.handleData(data);
+		const exitHandler = () => this.fail(new Error('Shell exited before the command finished'));
+		shellManager.on('data', dataHandler);
+		shellManager.on('exit', exitHandler);
+		this.shellEventListeners = [
+			{ event: 'data', handler: dataHandler },
+			{ event: 'exit', handler: exitHandler },
+		];
+		this.startTimer = setTimeout(() => {
+			this.fail(new Error('Shell did not start the command; it may be busy running another program'));
+		}, START_TIMEOUT);
+
+		const text = [
+			startMarkerCommand(style, this.id),
+			code.replace(/\r?\n$/, ''),
+			endMarkerCommand(style, this.id),
+		].join('\n');
+
+		try {
+			shellManager.sendText(text, true);
+		} catch (error) {
+			this.fail(error instanceof Error ? error : new Error(String(error)));
+		}
+	}
+
+	/**
+	 * Stop waiting for the command; the result rejects
+	 * The command itself keeps running in the shell.
+	 */
+	cancel(): void {
+		this.fail(new Error('Cancelled'));
+	}
+
+	private handleData(data: string): void {
+		// Keep a little of the previous data in the search so markers split
+		// across chunks are found
+		let searchFrom = Math.max(0, this.buffer.length - MARKER_OVERLAP);
+		this.buffer += data;
+
+		if (!this.started) {
+			const startMarker = `${ESC}]${MARKER_OSC};${this.id};start${BEL}`;
+			const index = this.buffer.indexOf(startMarker, searchFrom);
+			if (index === -1) {
+				// Output before the marker is not the command's; keep only
+				// what may hold the start of a split marker
+				this.buffer = this.buffer.slice(-MARKER_OVERLAP);
+				return;
+			}
+			this.started = true;
+			this.clearStartTimer();
+			this.buffer = this.buffer.slice(index + startMarker.length);
+			searchFrom = 0;
+		}
+
+		const endPattern = new RegExp(`${ESC}\\]${MARKER_OSC};${this.id};end;(-?\\d+)${BEL}`, 'g');
+		endPattern.lastIndex = searchFrom;
+		const match = endPattern.exec(this.buffer);
+		if (match) {
+			this.finish({
+				exitCode: parseInt(match[1], 10),
+				output: this.buffer.slice(0, match.index),
+			});
+			return;
+		}
+
+		if (this.buffer.length > MAX_OUTPUT_LENGTH) {
+			this.buffer = this.buffer.slice(this.buffer.length - MAX_OUTPUT_LENGTH);
+		}
+	}
+
+	private finish(result: CommandResult): void {
+		if (this.finished) {
+			return;
+		}
+		this.finished = true;
+		this.dispose();
+		this.resolveResult?.(result);
+	}
+
+	private fail(error: Error): void {
+		if (this.finished) {
+			return;
+		}
+		this.finished = true;
+		this.dispose();
+		this.rejectResult?.(error);
+	}
+
+	private clearStartTimer(): void {
+		if (this.startTimer) {
+			clearTimeout(this.startTimer);
+			this.startTimer = null;
+		}
+	}
+
+	private dispose(): void {
+		this.clearStartTimer();
+		this.shellEventListeners.forEach(({ event, handler }) => {
+			this.shellManager.off(event, handler);
+		});
+		this.shellEventListeners = [];
+		this.buffer = '';
+	}
+}
+
+/**
+ * How a shell prints the markers, or null if it can't (REPLs)
+ */
+function getMarkerStyle(shell: string): MarkerStyle | null {
+	const name = getExecutableName(shell);
+	if (name === 'pwsh' || name === 'powershell') {
+		return 'powershell';
+	}
+	if (name === 'fish') {
+		return 'fish';
+	}
+	if (['bash', 'sh', 'zsh', 'dash', 'ksh', 'ash'].includes(name)) {
+		return 'posix';
+	}
+	return null;
+}
+
+function startMarkerCommand(style: MarkerStyle, id: string): string {
+	if (style === 'powershell') {
+		return `Write-Host -NoNewline "$([char]27)]${MARKER_OSC};${id};start$([char]7)"`;
+	}
+	return `printf '\\033]${MARKER_OSC};${id};start\\007'`;
+}
+
+function endMarkerCommand(style: MarkerStyle, id: string): string {
+	switch (style) {
+		case 'powershell':
+			// $? must be read first; any other statement resets it
+			return `$__codeUnblockStatus = if ($?) { 0 } elseif ($LASTEXITCODE) { $LASTEXITCODE } else { 1 }; `
+				+ `Write-Host -NoNewline "$([char]27)]${MARKER_OSC};${id};end;$__codeUnblockStatus$([char]7)"`;
+		case 'fish':
+			return `printf '\\033]${MARKER_OSC};${id};end;%d\\007' $status`;
+		case 'posix':
+			return `printf '\\033]${MARKER_OSC};${id};end;%d\\007' $?`;
+	}
+}
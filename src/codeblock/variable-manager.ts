@@ -0,0 +1,169 @@
+import { TFile } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { VariableSyntax } from './variable-parser';
+
+// Frontmatter property holding a note's own variable values
+export const FRONTMATTER_VARIABLES_KEY = 'terminal-vars';
+
+/**
+ * Saved variable values, kept in the plugin settings
+ */
+export interface VariableStore {
+	vault: Record<string, string>;
+	// Keyed by folder path relative to the vault root, e.g. `projects/backend`
+	folders: Record<string, Record<string, string>>;
+}
+
+/**
+ * Where entered values are remembered
+ * - none: only used for this run
+ * - session: until Obsidian is closed
+ * - folder: saved for notes in the note's folder and its subfolders
+ * - vault: saved for every note
+ */
+export type RememberScope = 'none' | 'session' | 'folder' | 'vault';
+
+/**
+ * VariableManager resolves values for script parameters.
+ *
+ * Values are looked up in this order, first match wins:
+ * 1. Values remembered for the current session
+ * 2. The note's `terminal-vars` frontmatter
+ * 3. Saved values of the note's folder, then of each parent folder
+ * 4. Saved vault-wide values
+ */
+export class VariableManager {
+	private plugin: CodeUnblockTerminalPlugin;
+	private sessionValues = new Map<string, string>();
+
+	constructor(plugin: CodeUnblockTerminalPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Known values for the given variables
+	 * PowerShell names are matched case-insensitively
+	 * @param sourcePath Path of the note the code comes from, enabling note and folder values
+	 */
+	resolve(names: string[], syntax: VariableSyntax, sourcePath?: string): Record<string, string> {
+		const scopes = this.getScopes(sourcePath);
+		const values: Record<string, string> = {};
+
+		for (const name of names) {
+			for (const scope of scopes) {
+				const value = lookup(scope, name, syntax);
+				if (value !== undefined) {
+					values[name] = value;
+					break;
+				}
+			}
+		}
+		return values;
+	}
+
+	/**
+	 * Remember entered values in the given scope
+	 * Folder values are saved for the folder of the note at sourcePath.
+	 */
+	async remember(values: Record<string, string>, scope: RememberScope, sourcePath?: string): Promise<void> {
+		switch (scope) {
+			case 'session':
+				for (const [name, value] of Object.entries(values)) {
+					this.sessionValues.set(name, value);
+				}
+				break;
+			case 'folder': {
+				const folder = sourcePath !== undefined ? getFolderPath(sourcePath) : '';
+				if (!folder) {
+					// Notes at the vault root have no folder of their own
+					await this.remember(values, 'vault');
+					return;
+				}
+				const store = this.plugin.settings.variables;
+				store.folders[folder] = { ...store.folders[folder], ...values };
+				await this.plugin.saveSettings();
+				break;
+			}
+			case 'vault':
+				Object.assign(this.plugin.settings.variables.vault, values);
+				await this.plugin.saveSettings();
+				break;
+			case 'none':
+				break;
+		}
+	}
+
+	/**
+	 * Forget all session values
+	 */
+	clearSession(): void {
+		this.sessionValues.clear();
+	}
+
+	/**
+	 * Value sources in precedence order
+	 */
+	private getScopes(sourcePath?: string): Array<Map<string, string> | Record<string, string>> {
+		const store = this.plugin.settings.variables;
+		const scopes: Array<Map<string, string> | Record<string, string>> = [this.sessionValues];
+
+		if (sourcePath !== undefined) {
+			scopes.push(this.getFrontmatterValues(sourcePath));
+
+			let folder = getFolderPath(sourcePath);
+			while (folder) {
+				const values = store.folders[folder];
+				if (values) {
+					scopes.push(values);
+				}
+				folder = getFolderPath(folder);
+			}
+		}
+
+		scopes.push(store.vault);
+		return scopes;
+	}
+
+	/**
+	 * Values from the note's `terminal-vars` frontmatter
+	 */
+	private getFrontmatterValues(sourcePath: string): Record<string, string> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) {
+			return {};
+		}
+
+		const raw: unknown = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_VARIABLES_KEY];
+		if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+			return {};
+		}
+
+		const values: Record<string, string> = {};
+		for (const [name, value] of Object.entries(raw)) {
+			// YAML turns values such as 1.0 or true into non-strings
+			if (value !== null && value !== undefined && typeof value !== 'object') {
+				values[name] = String(value);
+			}
+		}
+		return values;
+	}
+}
+
+/**
+ * Folder containing a vault path ('' for the vault root)
+ */
+export function getFolderPath(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '' : path.slice(0, index);
+}
+
+function lookup(values: Map<string, string> | Record<string, string>, name: string, syntax: VariableSyntax): string | undefined {
+	const entries = values instanceof Map ? Array.from(values) : Object.entries(values);
+	const exact = entries.find(([key]) => key === name);
+	if (exact || syntax !== 'powershell') {
+		return exact?.[1];
+	}
+
+	const lower = name.toLowerCase();
+	return entries.find(([key]) => key.toLowerCase() === lower)?.[1];
+}
@@ -0,0 +1,166 @@
+/**
+ * Variable syntax of a code block's shell
+ * - bash: `$VAR` / `${VAR}` (also used for sh, zsh and other POSIX shells)
+ * - powershell: `$Var` / `${Var}`, case-insensitive
+ */
+export type VariableSyntax = 'bash' | 'powershell';
+
+const POWERSHELL_LANGUAGES = ['powershell', 'ps', 'ps1', 'pwsh'];
+
+// Environment variables commonly referenced in scripts but not always set
+const COMMON_ENV_VARS = [
+	'PATH', 'HOME', 'USER', 'USERNAME', 'SHELL', 'PWD', 'OLDPWD', 'TERM', 'LANG',
+	'TMP', 'TEMP', 'TMPDIR', 'HOSTNAME', 'EDITOR', 'PAGER', 'LOGNAME', 'UID',
+	'USERPROFILE', 'APPDATA', 'LOCALAPPDATA', 'PROGRAMFILES', 'SYSTEMROOT',
+];
+
+// Variables bash sets itself
+const BASH_BUILTIN_VARS = [
+	'RANDOM', 'LINENO', 'SECONDS', 'BASH', 'BASH_VERSION', 'BASH_SOURCE',
+	'FUNCNAME', 'IFS', 'PPID', 'REPLY', 'OPTARG', 'OPTIND', 'PIPESTATUS',
+];
+
+// PowerShell automatic variables (compared lowercased)
+const POWERSHELL_AUTOMATIC_VARS = [
+	'_', 'true', 'false', 'null', 'args', 'input', 'this', 'psitem', 'error',
+	'home', 'host', 'pwd', 'pid', 'profile', 'lastexitcode', 'matches',
+	'psscriptroot', 'pscommandpath', 'psversiontable', 'pshome', 'executioncontext',
+	'myinvocation', 'ofs', 'shellid', 'stacktrace', 'iswindows', 'islinux', 'ismacos',
+	'erroractionpreference', 'verbosepreference', 'confirmpreference', 'foreach', 'switch',
+];
+
+const NAME = '[A-Za-z_][A-Za-z0-9_]*';
+const SINGLE_QUOTED_PATTERN = /('[^'\n]*')/;
+
+/**
+ * Variable syntax for a fence language
+ */
+export function getVariableSyntax(language: string): VariableSyntax {
+	return POWERSHELL_LANGUAGES.includes(language.toLowerCase()) ? 'powershell' : 'bash';
+}
+
+/**
+ * Find variables referenced by a code block that it does not define itself
+ * and that are not environment or shell built-in variables
+ * @returns Unique variable names in order of first use
+ */
+export function detectVariables(code: string, syntax: VariableSyntax): string[] {
+	const searchable = syntax === 'bash' ? stripSingleQuoted(code) : code;
+	const assigned = findAssignedVariables(searchable, syntax);
+	const found: string[] = [];
+	const seen = new Set<string>();
+
+	for (const match of searchable.matchAll(referencePattern(syntax))) {
+		const name = match[1] ?? match[2];
+		if (!name) {
+			continue;
+		}
+
+		const key = syntax === 'powershell' ? name.toLowerCase() : name;
+		if (seen.has(key) || assigned.has(key) || isKnownVariable(name, syntax)) {
+			continue;
+		}
+
+		seen.add(key);
+		found.push(name);
+	}
+
+	return found;
+}
+
+/**
+ * Replace references to the given variables with their values
+ * Variables without a value are left untouched
+ */
+export function substituteVariables(code: string, values: Record<string, string>, syntax: VariableSyntax): string {
+	const lookup = new Map<string, string>();
+	for (const [name, value] of Object.entries(values)) {
+		lookup.set(syntax === 'powershell' ? name.toLowerCase() : name, value);
+	}
+
+	const substitute = (text: string) => text.replace(referencePattern(syntax), (reference, braced?: string, bare?: string) => {
+		const name = braced ?? bare;
+		if (!name) {
+			return reference;
+		}
+		const value = lookup.get(syntax === 'powershell' ? name.toLowerCase() : name);
+		return value ?? reference;
+	});
+
+	if (syntax === 'powershell') {
+		return substitute(code);
+	}
+
+	// Leave single-quoted bash strings as they are; odd indices are the quoted parts
+	return code
+		.split(SINGLE_QUOTED_PATTERN)
+		.map((part, i) => (i % 2 === 1 ? part : substitute(part)))
+		.join('');
+}
+
+/**
+ * Pattern matching `${NAME}` (group 1) or `$NAME` (group 2)
+ * Escaped dollars, `${VAR:-default}` style expansions and PowerShell scoped
+ * names such as `$env:PATH` do not match.
+ */
+function referencePattern(syntax: VariableSyntax): RegExp {
+	if (syntax === 'powershell') {
+		return new RegExp(`(?<!\`)\\$(?:\\{(${NAME})\\}|(${NAME})(?![A-Za-z0-9_:]))`, 'g');
+	}
+	return new RegExp(`(?<!\\\\)\\$(?:\\{(${NAME})\\}|(${NAME})(?![A-Za-z0-9_]))`, 'g');
+}
+
+/**
+ * Variables the block assigns before (or instead of) being asked for them
+ */
+function findAssignedVariables(code: string, syntax: VariableSyntax): Set<string> {
+	const assigned = new Set<string>();
+	const patterns = syntax === 'powershell'
+		? [new RegExp(`\\$(${NAME})\\s*=(?!=)`, 'g'), new RegExp(`foreach\\s*\\(\\s*\\$(${NAME})\\s+in`, 'gi')]
+		: [
+			new RegExp(`(?:^|[\\s;&|(])(?:export\\s+|local\\s+|declare\\s+(?:-\\w+\\s+)*|readonly\\s+)?(${NAME})=`, 'gm'),
+			new RegExp(`\\bfor\\s+(${NAME})\\s+in\\b`, 'g'),
+			new RegExp(`\\bread\\s+(?:-\\w+\\s+(?:\\S+\\s+)?)*(${NAME})`, 'g'),
+		];
+
+	for (const pattern of patterns) {
+		for (const match of code.matchAll(pattern)) {
+			assigned.add(syntax === 'powershell' ? match[1].toLowerCase() : match[1]);
+		}
+	}
+	return assigned;
+}
+
+/**
+ * Environment and shell built-in variables, which are never prompted for
+ */
+function isKnownVariable(name: string, syntax: VariableSyntax): boolean {
+	const upper = name.toUpperCase();
+	if (COMMON_ENV_VARS.includes(upper)) {
+		return true;
+	}
+
+	// Environment variable names are case-insensitive on Windows
+	const envNames = Object.keys(process.env);
+	if (process.platform === 'win32' || syntax === 'powershell') {
+		if (envNames.some((env) => env.toUpperCase() === upper)) {
+			return true;
+		}
+	} else if (envNames.includes(name)) {
+		return true;
+	}
+
+	return syntax === 'powershell'
+		? POWERSHELL_AUTOMATIC_VARS.includes(name.toLowerCase())
+		: BASH_BUILTIN_VARS.includes(name);
+}
+
+/**
+ * Blank out single-quoted strings, which bash does not expand
+ */
+function stripSingleQuoted(code: string): string {
+	return code
+		.split(SINGLE_QUOTED_PATTERN)
+		.map((part, i) => (i % 2 === 1 ? ' '.repeat(part.length) : part))
+		.join('');
+}
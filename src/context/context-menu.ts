@@ -0,0 +1,36 @@
+import { TFile, TFolder } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { toAbsolutePath } from './working-directory';
+
+/**
+ * Register file menu entries that open a terminal at a vault location:
+ * - Open terminal here: on folders
+ * - Open terminal in file's folder: on files
+ */
+export function registerContextMenus(plugin: CodeUnblockTerminalPlugin): void {
+	plugin.registerEvent(plugin.app.workspace.on('file-menu', (menu, file) => {
+		let folder: TFolder | null = null;
+		let title: string;
+
+		if (file instanceof TFolder) {
+			folder = file;
+			title = 'Open terminal here';
+		} else if (file instanceof TFile) {
+			folder = file.parent;
+			title = 'Open terminal in file\'s folder';
+		} else {
+			return;
+		}
+
+		const dir = folder ? toAbsolutePath(plugin.app, folder.path) : null;
+		if (!dir) {
+			return;
+		}
+
+		menu.addItem((item) => item
+			.setTitle(title)
+			.setIcon('terminal')
+			.setSection('open')
+			.onClick(() => plugin.openTerminalInDirectory(dir)));
+	}));
+}
@@ -0,0 +1,203 @@
+import { TAbstractFile, TFile } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { getTempDir, writeTempFile } from '../utils/temp-files';
+import { getVaultPath, toAbsolutePath } from './working-directory';
+
+const POSIX_HELPER = `#!/bin/sh
+# Print what is open in Obsidian right now
+usage() {
+	echo "usage: obsidian-ctx [file|dir|note|vault|vault-name|all]"
+	echo "  file        absolute path of the active note (default)"
+	echo "  dir         absolute path of the active note's folder"
+	echo "  note        vault-relative path of the active note"
+	echo "  vault       absolute path of the vault"
+	echo "  vault-name  name of the vault"
+	echo "  all         every value as key=value lines"
+}
+
+if [ -z "$OBSIDIAN_CONTEXT_FILE" ] || [ ! -r "$OBSIDIAN_CONTEXT_FILE" ]; then
+	echo "obsidian-ctx: not started from an Obsidian terminal" >&2
+	exit 2
+fi
+
+key="\${1:-file}"
+case "$key" in
+	file|dir|note|vault|vault-name) ;;
+	all) cat "$OBSIDIAN_CONTEXT_FILE"; exit 0 ;;
+	-h|--help) usage; exit 0 ;;
+	*) usage >&2; exit 2 ;;
+esac
+
+value=$(sed -n "s/^$key=//p" "$OBSIDIAN_CONTEXT_FILE")
+if [ -z "$value" ]; then
+	exit 1
+fi
+printf '%s\\n' "$value"
+`;
+
+const WINDOWS_HELPER = [
+	'@echo off',
+	'rem Print what is open in Obsidian right now: obsidian-ctx [file^|dir^|note^|vault^|vault-name^|all]',
+	'setlocal',
+	'if "%OBSIDIAN_CONTEXT_FILE%"=="" (',
+	'	echo obsidian-ctx: not started from an Obsidian terminal 1>&2',
+	'	exit /b 2',
+	')',
+	'set "key=%~1"',
+	'if "%key%"=="" set "key=file"',
+	'if /i "%key%"=="all" (',
+	'	type "%OBSIDIAN_CONTEXT_FILE%"',
+	'	exit /b 0',
+	')',
+	'for /f "usebackq tokens=1,* delims==" %%a in ("%OBSIDIAN_CONTEXT_FILE%") do (',
+	'	if /i "%%a"=="%key%" if not "%%b"=="" (',
+	'		echo %%b',
+	'		exit /b 0',
+	'	)',
+	')',
+	'exit /b 1',
+	'',
+].join('\r\n');
+
+/**
+ * ObsidianContext tells shells what is open in Obsidian.
+ *
+ * Responsibilities:
+ * - Provide OBSIDIAN_* environment variables for new shells
+ * - Install the `obsidian-ctx` helper and add it to the end of the shells' PATH
+ * - Keep the context file the helper reads up to date as the active note changes
+ *
+ * The environment is a snapshot taken when the shell starts; `obsidian-ctx`
+ * always prints the current values.
+ */
+export class ObsidianContext {
+	private plugin: CodeUnblockTerminalPlugin;
+	private pluginDir: string | null;
+	private binDir: string | null = null;
+	private contextFile: string | null = null;
+	private lastWritten: string | null = null;
+	// Writes run one after another so an older one never replaces a newer one
+	private pendingWrite: Promise<void> = Promise.resolve();
+
+	constructor(plugin: CodeUnblockTerminalPlugin, pluginDir: string | null) {
+		this.plugin = plugin;
+		this.pluginDir = pluginDir;
+	}
+
+	/**
+	 * Install the helper and start following the active note
+	 */
+	start(): void {
+		const vaultPath = getVaultPath(this.plugin.app);
+		if (!vaultPath) {
+			return;
+		}
+
+		try {
+			const path = require('path');
+			const crypto = require('crypto');
+			const helper = process.platform === 'win32'
+				? writeTempFile('bin/obsidian-ctx.cmd', WINDOWS_HELPER)
+				: writeTempFile('bin/obsidian-ctx', POSIX_HELPER, 0o755);
+			this.binDir = path.dirname(helper);
+
+			// One context file per vault, so terminals of different vaults don't mix
+			const vaultId = crypto.createHash('sha1').update(vaultPath).digest('hex').slice(0, 12);
+			this.contextFile = path.join(getTempDir(), 'context', `${vaultId}.env`);
+		} catch (error) {
+			console.warn('Could not install obsidian-ctx:', error);
+			return;
+		}
+
+		const { workspace, vault } = this.plugin.app;
+		const update = () => this.update();
+		this.plugin.registerEvent(workspace.on('active-leaf-change', update));
+		this.plugin.registerEvent(workspace.on('file-open', update));
+		this.plugin.registerEvent(vault.on('rename', (file: TAbstractFile) => {
+			if (file === workspace.getActiveFile()) {
+				this.update();
+			}
+		}));
+		workspace.onLayoutReady(update);
+	}
+
+	/**
+	 * Environment variables describing the vault and the active note, plus
+	 * PATH with the `obsidian-ctx` helper
+	 */
+	getEnvironment(): { [key: string]: string } {
+		const env: { [key: string]: string } = {};
+		const values = this.getValues();
+
+		env.OBSIDIAN_VAULT = values.vault;
+		env.OBSIDIAN_VAULT_NAME = values['vault-name'];
+		env.OBSIDIAN_ACTIVE_FILE = values.file;
+		env.OBSIDIAN_ACTIVE_DIR = values.dir;
+		if (this.pluginDir) {
+			env.OBSIDIAN_PLUGIN_DIR = this.pluginDir;
+		}
+
+		if (this.contextFile && this.binDir) {
+			env.OBSIDIAN_CONTEXT_FILE = this.contextFile;
+
+			// Windows names the variable Path; adding PATH next to it would leave
+			// the shell with two. The helper goes last so it never shadows the
+			// user's own commands.
+			const path = require('path');
+			const pathKey = Object.keys(process.env).find((key) => key.toUpperCase() === 'PATH') ?? 'PATH';
+			const current = process.env[pathKey];
+			env[pathKey] = current ? `${current}${path.delimiter}${this.binDir}` : this.binDir;
+		}
+
+		return env;
+	}
+
+	/**
+	 * Write the current values to the context file
+	 */
+	private update(): void {
+		const contextFile = this.contextFile;
+		if (!contextFile) {
+			return;
+		}
+
+		const content = Object.entries(this.getValues())
+			.map(([key, value]) => `${key}=${value}\n`)
+			.join('');
+		if (content === this.lastWritten) {
+			return;
+		}
+		this.lastWritten = content;
+
+		// Write next to the file and rename, so the helper never reads a partial file
+		const fs = require('fs');
+		const path = require('path');
+		const tempFile = `${contextFile}.${process.pid}.tmp`;
+		this.pendingWrite = this.pendingWrite
+			.then(() => fs.promises.mkdir(path.dirname(contextFile), { recursive: true }))
+			.then(() => fs.promises.writeFile(tempFile, content, 'utf8'))
+			.then(() => fs.promises.rename(tempFile, contextFile))
+			.catch((error: Error) => {
+				this.lastWritten = null;
+				console.warn('Could not update the obsidian-ctx context file:', error);
+			});
+	}
+
+	/**
+	 * Values shared by the environment and the context file; paths of the
+	 * active note are empty when no note is open
+	 */
+	private getValues(): Record<'file' | 'dir' | 'note' | 'vault' | 'vault-name', string> {
+		const app = this.plugin.app;
+		const file: TFile | null = app.workspace.getActiveFile();
+		const folder = file?.parent;
+
+		return {
+			file: file ? toAbsolutePath(app, file.path) ?? '' : '',
+			dir: folder ? toAbsolutePath(app, folder.path) ?? '' : '',
+			note: file?.path ?? '',
+			vault: getVaultPath(app) ?? '',
+			'vault-name': app.vault.getName(),
+		};
+	}
+}
@@ -0,0 +1,67 @@
+import { App, TFile } from 'obsidian';
+
+/*
+ * Placeholders in a profile's working directory:
+ * - {vault}     absolute path of the vault
+ * - {note-dir}  absolute path of the active note's folder (the vault without a note)
+ * - {folder}    vault-relative path of the active note's folder
+ * - {file}      name of the active note without extension
+ */
+const PLACEHOLDER_PATTERN = /\{(vault|note-dir|folder|file)\}/g;
+
+/**
+ * Absolute path of the vault, or null when the vault is not on the local file system
+ */
+export function getVaultPath(app: App): string | null {
+	const adapter = app.vault.adapter;
+	if ('basePath' in adapter && typeof adapter.basePath === 'string') {
+		return adapter.basePath;
+	}
+	return null;
+}
+
+/**
+ * Absolute path of a vault file or folder
+ */
+export function toAbsolutePath(app: App, vaultPath: string): string | null {
+	const vault = getVaultPath(app);
+	if (!vault) {
+		return null;
+	}
+	const path = require('path');
+	return vaultPath === '/' ? vault : path.join(vault, vaultPath);
+}
+
+/**
+ * Expand a working directory template into an absolute path
+ * `~` is the home directory; relative paths are relative to the vault.
+ * @param file Note the placeholders refer to, usually the active one
+ * @returns The path, or null if the vault is not on the local file system
+ */
+export function expandWorkingDirectory(app: App, template: string, file: TFile | null): string | null {
+	const vault = getVaultPath(app);
+	if (!vault) {
+		return null;
+	}
+
+	const path = require('path');
+	const os = require('os');
+	const folder = file?.parent && !file.parent.isRoot() ? file.parent.path : '';
+
+	const expanded = template
+		.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+			switch (name) {
+				case 'vault':
+					return vault;
+				case 'note-dir':
+					return folder ? path.join(vault, folder) : vault;
+				case 'folder':
+					return folder;
+				default:
+					return file?.basename ?? '';
+			}
+		})
+		.replace(/^~(?=$|[\\/])/, os.homedir());
+
+	return path.normalize(path.isAbsolute(expanded) ? expanded : path.join(vault, expanded));
+}
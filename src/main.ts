@@ -1,6 +1,21 @@
-import { Plugin, WorkspaceLeaf } from 'obsidian';
+import { MarkdownView, Notice, Plugin, TFile, WorkspaceLeaf } from 'obsidian';
+import { Extension } from '@codemirror/state';
 import { CodeUnblockTerminalSettings, CodeUnblockTerminalSettingTab, DEFAULT_SETTINGS } from './settings';
 import { TerminalView, TERMINAL_VIEW_TYPE } from './terminal/terminal-view';
+import { CodeBlockListView, CODE_BLOCK_LIST_VIEW_TYPE } from './codeblock/code-list-view';
+import { CodeBlockExecutor } from './codeblock/executor';
+import { VariableManager } from './codeblock/variable-manager';
+import { registerRunButtons } from './codeblock/run-button';
+import { registerContextMenus } from './context/context-menu';
+import { ObsidianContext } from './context/obsidian-context';
+import { createRunButtonExtension } from './codeblock/editor-extension';
+import { findCodeBlockAtLine, isShellLanguage, parseCodeBlocks } from './codeblock/detector';
+import { ShellProfile } from './terminal/shell-manager';
+import { ProfileManager } from './terminal/profile-manager';
+import { PTYManager } from './terminal/pty-manager';
+import { Runbook } from './runbook/runbook';
+import { RunbookView, RUNBOOK_VIEW_TYPE } from './runbook/runbook-view';
+import { BlockHighlighter, createBlockHighlightExtension } from './runbook/highlight';
 
 /**
  * CodeUnblockTerminalPlugin - Main plugin class
@@ -9,8 +24,17 @@ import { TerminalView, TERMINAL_VIEW_TYPE } from './terminal/terminal-view';
  */
 export default class CodeUnblockTerminalPlugin extends Plugin {
 	settings: CodeUnblockTerminalSettings = DEFAULT_SETTINGS;
+	codeBlockExecutor: CodeBlockExecutor = new CodeBlockExecutor(this);
+	variableManager: VariableManager = new VariableManager(this);
+	profileManager: ProfileManager = new ProfileManager(this);
+	obsidianContext!: ObsidianContext;
+	// One PTY host shared by every terminal
+	ptyManager: PTYManager = new PTYManager();
+	blockHighlighter: BlockHighlighter = new BlockHighlighter();
 	private terminalView: TerminalView | null = null;
 	private pluginDir: string | null = null;
+	// Registered once; emptied or filled when the run-button setting changes
+	private editorExtensions: Extension[] = [];
 
 	async onload() {
 		console.log('Loading Code Unblock Terminal plugin');
@@ -35,15 +59,50 @@ export default class CodeUnblockTerminalPlugin extends Plugin {
 		// Load settings
 		await this.loadSettings();
 
+		// Tell shells about the vault and the active note
+		this.obsidianContext = new ObsidianContext(this, this.pluginDir);
+		this.obsidianContext.start();
+
+		// Start shells through the shared PTY host
+		if (this.pluginDir) {
+			this.ptyManager.initialize(this.pluginDir);
+		}
+		this.ptyManager.setEnvironmentProvider(() => this.obsidianContext.getEnvironment());
+		this.ptyManager.on('error', (id: number, error: Error) => {
+			console.error(`PTY ${id} error:`, error);
+		});
+
 		// Register terminal view
 		this.registerView(
 			TERMINAL_VIEW_TYPE,
 			(leaf) => {
-				this.terminalView = new TerminalView(leaf, this, this.pluginDir);
+				this.terminalView = new TerminalView(leaf, this);
 				return this.terminalView;
 			}
 		);
 
+		// Register code block list view
+		this.registerView(
+			CODE_BLOCK_LIST_VIEW_TYPE,
+			(leaf) => new CodeBlockListView(leaf, this)
+		);
+
+		// Register runbook progress view
+		this.registerView(
+			RUNBOOK_VIEW_TYPE,
+			(leaf) => new RunbookView(leaf)
+		);
+
+		// Add run buttons to code blocks in reading view
+		registerRunButtons(this);
+
+		// Add run buttons to code fences in Live Preview / source mode
+		this.registerEditorExtension(this.editorExtensions);
+		this.updateEditorExtensions();
+
+		// Add "Open terminal here" to the file explorer's context menus
+		registerContextMenus(this);
+
 		// Add ribbon icon
 		this.addRibbonIcon('terminal', 'Toggle terminal', async (evt: MouseEvent) => {
 			await this.toggleTerminalView();
@@ -74,10 +133,98 @@ export default class CodeUnblockTerminalPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'show-code-blocks',
+			name: 'Show code blocks',
+			callback: async () => {
+				await this.openCodeBlockListView();
+			},
+		});
+
+		this.addCommand({
+			id: 'run-code-block-at-cursor',
+			name: 'Run code block at cursor',
+			editorCallback: async (editor, ctx) => {
+				const blocks = parseCodeBlocks(editor.getValue());
+				const block = findCodeBlockAtLine(blocks, editor.getCursor().line);
+				if (!block) {
+					new Notice('Cursor is not inside a code block');
+					return;
+				}
+				await this.codeBlockExecutor.runBlock(block, { sourcePath: ctx.file?.path });
+			},
+		});
+
+		this.addCommand({
+			id: 'capture-code-block-at-cursor',
+			name: 'Run code block at cursor and capture output',
+			editorCallback: async (editor, ctx) => {
+				const blocks = parseCodeBlocks(editor.getValue());
+				const block = findCodeBlockAtLine(blocks, editor.getCursor().line);
+				if (!block || !ctx.file) {
+					new Notice('Cursor is not inside a code block');
+					return;
+				}
+				await this.codeBlockExecutor.runBlockAndCapture(block, ctx.file);
+			},
+		});
+
+		this.addCommand({
+			id: 'run-note-as-runbook',
+			name: 'Run note as runbook',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view?.file) {
+					return false;
+				}
+				if (!checking) {
+					this.runNoteAsRunbook(view.file, view.editor.getValue()).catch((error: Error) => {
+						console.error('Failed to run note as runbook:', error);
+						new Notice(`Failed to run note as runbook: ${error.message}`);
+					});
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'clear-session-variables',
+			name: 'Forget script parameter values for this session',
+			callback: () => {
+				this.variableManager.clearSession();
+				new Notice('Script parameter values cleared');
+			},
+		});
+
+		this.addCommand({
+			id: 'new-terminal-tab',
+			name: 'New terminal tab',
+			callback: async () => {
+				await this.openTerminalView();
+				await this.terminalView?.createTabWithSelectedProfile();
+			},
+		});
+
+		this.addTerminalViewCommand('close-terminal-tab', 'Close current terminal tab', (view) => view.closeActiveTab());
+		this.addTerminalViewCommand('next-terminal-tab', 'Switch to next terminal tab', (view) => view.cycleTab(1));
+		this.addTerminalViewCommand('previous-terminal-tab', 'Switch to previous terminal tab', (view) => view.cycleTab(-1));
+		this.addTerminalViewCommand('split-terminal-right', 'Split terminal right', (view) => view.splitActivePane('horizontal'));
+		this.addTerminalViewCommand('split-terminal-down', 'Split terminal down', (view) => view.splitActivePane('vertical'));
+		this.addTerminalViewCommand('close-terminal-pane', 'Close current terminal pane', (view) => view.closeActivePane());
+		this.addTerminalViewCommand('focus-next-terminal-pane', 'Focus next terminal pane', (view) => view.cyclePane(1));
+		this.addTerminalViewCommand('focus-previous-terminal-pane', 'Focus previous terminal pane', (view) => view.cyclePane(-1));
+		this.addTerminalViewCommand('scroll-to-previous-command', 'Scroll to previous command', (view) => view.scrollToCommand(-1));
+		this.addTerminalViewCommand('scroll-to-next-command', 'Scroll to next command', (view) => view.scrollToCommand(1));
+		this.addTerminalViewCommand('select-command-output', 'Select command output', (view) => view.selectCommandOutput());
+		this.addTerminalViewCommand('copy-last-command-output', 'Copy last command output', (view) => view.copyLastCommandOutput());
+		this.addTerminalViewCommand('show-output-statistics', 'Show terminal output statistics', (view) => view.showOutputStats());
+
 		// Add settings tab
 		this.addSettingTab(new CodeUnblockTerminalSettingTab(this.app, this));
 
 		// Open terminal on startup if configured
+		// A terminal leaf saved in the workspace is restored by Obsidian itself;
+		// this only makes sure it exists and is revealed
 		if (this.settings.restoreTerminalsOnStartup) {
 			// Wait for workspace to be ready
 			this.app.workspace.onLayoutReady(async () => {
@@ -89,21 +236,64 @@ export default class CodeUnblockTerminalPlugin extends Plugin {
 	async onunload() {
 		console.log('Unloading Code Unblock Terminal plugin');
 
-		// Close terminal view
-		await this.closeTerminalView();
+		// Leaves are not detached here: Obsidian closes the views (disposing their
+		// sessions) and keeps them in the saved layout, so TerminalView.setState
+		// can restore the sessions the next time the plugin loads
+		this.terminalView = null;
 
-		// Detach all leaves of our view type
-		this.app.workspace.detachLeavesOfType(TERMINAL_VIEW_TYPE);
+		// Sessions release the host as they close; stop it now in case one doesn't
+		await this.ptyManager.stopHost();
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+		// Copy nested values so edits don't modify DEFAULT_SETTINGS
+		const variables = this.settings.variables;
+		this.settings.variables = { vault: { ...variables?.vault }, folders: { ...variables?.folders } };
+		this.settings.languageProfiles = { ...this.settings.languageProfiles };
+		this.settings.profiles = this.settings.profiles?.map((profile) => ({ ...profile })) ?? null;
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Whether code blocks of a fence language get run buttons: shell languages
+	 * and languages mapped to a shell in the settings
+	 */
+	isRunnableLanguage(language: string): boolean {
+		return isShellLanguage(language) || language.toLowerCase() in this.settings.languageProfiles;
+	}
+
+	/**
+	 * Enable or disable the editor run buttons to match the settings
+	 */
+	updateEditorExtensions(): void {
+		this.editorExtensions.length = 0;
+		this.editorExtensions.push(createBlockHighlightExtension(this.blockHighlighter));
+		if (this.settings.showRunButtons) {
+			this.editorExtensions.push(createRunButtonExtension(this));
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	/**
+	 * Shell profiles configured in the settings
+	 */
+	getProfiles(): Promise<ShellProfile[]> {
+		return this.profileManager.getProfiles();
+	}
+
+	/**
+	 * Open a terminal tab with the default profile in a directory
+	 */
+	async openTerminalInDirectory(cwd: string): Promise<void> {
+		await this.openTerminalView();
+		await this.terminalView?.openTabInDirectory(cwd);
+	}
+
 	/**
 	 * Open the terminal view in the configured position
 	 */
@@ -152,6 +342,61 @@ export default class CodeUnblockTerminalPlugin extends Plugin {
 		workspace.revealLeaf(leaf);
 	}
 
+	/**
+	 * Open (or reveal) the code block list in the right sidebar
+	 */
+	async openCodeBlockListView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(CODE_BLOCK_LIST_VIEW_TYPE)[0];
+
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				throw new Error('Failed to create right panel');
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({
+				type: CODE_BLOCK_LIST_VIEW_TYPE,
+				active: true,
+			});
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Run a note's shell code blocks step by step, showing progress in the sidebar
+	 */
+	async runNoteAsRunbook(file: TFile, content: string): Promise<void> {
+		const blocks = parseCodeBlocks(content).filter((block) => isShellLanguage(block.language));
+		if (blocks.length === 0) {
+			new Notice(`No shell code blocks in ${file.basename}`);
+			return;
+		}
+
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(RUNBOOK_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				throw new Error('Failed to create right panel');
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({
+				type: RUNBOOK_VIEW_TYPE,
+				active: true,
+			});
+		}
+		workspace.revealLeaf(leaf);
+
+		if (!(leaf.view instanceof RunbookView)) {
+			return;
+		}
+		const runbook = new Runbook(this, file, blocks);
+		leaf.view.setRunbook(runbook);
+		await runbook.start();
+	}
+
 	/**
 	 * Close the terminal view
 	 */
@@ -182,6 +427,25 @@ export default class CodeUnblockTerminalPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Register a command that is only available while the terminal view is open
+	 */
+	private addTerminalViewCommand(id: string, name: string, action: (view: TerminalView) => unknown): void {
+		this.addCommand({
+			id,
+			name,
+			checkCallback: (checking: boolean) => {
+				if (!this.terminalView) {
+					return false;
+				}
+				if (!checking) {
+					action(this.terminalView);
+				}
+				return true;
+			},
+		});
+	}
+
 	/**
 	 * Get the current terminal view instance
 	 */
@@ -0,0 +1,99 @@
+import { editorInfoField } from 'obsidian';
+import { RangeSetBuilder } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+
+/**
+ * Lines of a note to highlight, with a status used as a CSS modifier
+ */
+export interface BlockHighlight {
+	path: string;
+	// Zero-based, inclusive
+	startLine: number;
+	endLine: number;
+	status: string;
+}
+
+/**
+ * BlockHighlighter holds the code block currently highlighted in editors.
+ * Editors showing the highlighted note redraw whenever it changes.
+ */
+export class BlockHighlighter {
+	private highlight: BlockHighlight | null = null;
+	private listeners: Set<() => void> = new Set();
+	private version = 0;
+
+	set(highlight: BlockHighlight | null): void {
+		this.highlight = highlight;
+		this.version++;
+		this.listeners.forEach((listener) => listener());
+	}
+
+	get(): BlockHighlight | null {
+		return this.highlight;
+	}
+
+	getVersion(): number {
+		return this.version;
+	}
+
+	/**
+	 * Listen for highlight changes
+	 * @returns Function removing the listener
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+}
+
+function buildDecorations(highlighter: BlockHighlighter, view: EditorView): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	const highlight = highlighter.get();
+	const path = view.state.field(editorInfoField, false)?.file?.path;
+
+	if (highlight && highlight.path === path) {
+		const { doc } = view.state;
+		const decoration = Decoration.line({
+			class: `code-unblock-highlighted-line is-${highlight.status}`,
+		});
+		const last = Math.min(highlight.endLine + 1, doc.lines);
+		for (let lineNumber = highlight.startLine + 1; lineNumber <= last; lineNumber++) {
+			const line = doc.line(lineNumber);
+			builder.add(line.from, line.from, decoration);
+		}
+	}
+
+	return builder.finish();
+}
+
+/**
+ * Create the editor extension that draws the highlighted code block
+ */
+export function createBlockHighlightExtension(highlighter: BlockHighlighter) {
+	return ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+		private version: number;
+		private unsubscribe: () => void;
+
+		constructor(view: EditorView) {
+			this.decorations = buildDecorations(highlighter, view);
+			this.version = highlighter.getVersion();
+
+			// An empty transaction makes the editor call update()
+			this.unsubscribe = highlighter.onChange(() => view.dispatch({}));
+		}
+
+		update(update: ViewUpdate) {
+			if (update.docChanged || this.version !== highlighter.getVersion()) {
+				this.decorations = buildDecorations(highlighter, update.view);
+				this.version = highlighter.getVersion();
+			}
+		}
+
+		destroy() {
+			this.unsubscribe();
+		}
+	}, {
+		decorations: (value) => value.decorations,
+	});
+}
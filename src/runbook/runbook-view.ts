@@ -0,0 +1,180 @@
+import { ItemView, setIcon, WorkspaceLeaf } from 'obsidian';
+import { Runbook, RunbookStep, StepStatus } from './runbook';
+
+export const RUNBOOK_VIEW_TYPE = 'code-unblock-runbook-view';
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+	pending: 'circle',
+	running: 'loader',
+	succeeded: 'check-circle',
+	failed: 'x-circle',
+	skipped: 'skip-forward',
+};
+
+/**
+ * RunbookView shows the progress of a runbook in a sidebar and the controls
+ * to stop it or decide what happens after a failed step.
+ */
+export class RunbookView extends ItemView {
+	private runbook: Runbook | null = null;
+	private contentContainer: HTMLElement | null = null;
+	private changeHandler = () => this.render();
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return RUNBOOK_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Runbook';
+	}
+
+	getIcon(): string {
+		return 'list-checks';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('code-unblock-runbook');
+		this.contentContainer = container;
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.setRunbook(null);
+		this.contentContainer = null;
+	}
+
+	/**
+	 * Show a runbook, stopping the one shown before
+	 */
+	setRunbook(runbook: Runbook | null): void {
+		if (this.runbook) {
+			this.runbook.off('change', this.changeHandler);
+			this.runbook.stop();
+		}
+
+		this.runbook = runbook;
+		runbook?.on('change', this.changeHandler);
+		this.render();
+	}
+
+	private render(): void {
+		const container = this.contentContainer;
+		if (!container) {
+			return;
+		}
+		container.empty();
+
+		const runbook = this.runbook;
+		if (!runbook) {
+			container.createDiv({
+				cls: 'runbook-empty',
+				text: 'Run "Run note as runbook" from the command palette to run a note\'s code blocks step by step.',
+			});
+			return;
+		}
+
+		container.createDiv({ cls: 'runbook-header', text: runbook.file.basename });
+		container.createDiv({ cls: 'runbook-status', text: this.getStatusText(runbook) });
+		this.renderControls(container.createDiv('runbook-controls'), runbook);
+
+		// Elements are recreated on every render, so listeners go with them
+		const listEl = container.createDiv('runbook-steps');
+		runbook.steps.forEach((step, i) => {
+			const itemEl = listEl.createDiv(`runbook-step is-${step.status}`);
+			if (i === runbook.getCurrentIndex() && runbook.getState() !== 'finished') {
+				itemEl.addClass('is-current');
+			}
+
+			const iconEl = itemEl.createDiv('runbook-step-icon');
+			setIcon(iconEl, STATUS_ICONS[step.status]);
+
+			const infoEl = itemEl.createDiv('runbook-step-info');
+			const title = step.block.heading ?? runbook.file.basename;
+			infoEl.createDiv({
+				cls: 'runbook-step-title',
+				text: `${i + 1}. ${title} (line ${step.block.startLine + 1})`,
+			});
+			infoEl.createDiv({ cls: 'runbook-step-preview', text: step.block.preview });
+
+			const result = this.getStepResult(step);
+			if (result) {
+				infoEl.createDiv({ cls: 'runbook-step-result', text: result });
+			}
+
+			itemEl.addEventListener('click', () => runbook.reveal(i));
+		});
+	}
+
+	private renderControls(controlsEl: HTMLElement, runbook: Runbook): void {
+		const addButton = (text: string, action: () => void, cta = false) => {
+			const button = controlsEl.createEl('button', { text });
+			if (cta) {
+				button.addClass('mod-cta');
+			}
+			button.addEventListener('click', action);
+		};
+
+		switch (runbook.getState()) {
+			case 'ready':
+				addButton('Start', () => runbook.start(), true);
+				break;
+			case 'running':
+				addButton('Stop', () => runbook.stop());
+				break;
+			case 'waiting': {
+				const failed = runbook.steps[runbook.getCurrentIndex()].status === 'failed';
+				addButton('Retry', () => runbook.retry(), true);
+				addButton('Skip', () => runbook.skip());
+				if (failed) {
+					addButton('Continue', () => runbook.continue());
+				}
+				addButton('Stop', () => runbook.stop());
+				break;
+			}
+			case 'stopped':
+				addButton('Resume', () => runbook.start(), true);
+				break;
+			case 'finished':
+				addButton('Run again', () => runbook.start(), true);
+				break;
+		}
+	}
+
+	private getStatusText(runbook: Runbook): string {
+		const total = runbook.steps.length;
+		const current = runbook.getCurrentIndex() + 1;
+
+		switch (runbook.getState()) {
+			case 'ready':
+				return `${total} steps`;
+			case 'running':
+				return `Running step ${current} of ${total}`;
+			case 'waiting':
+				return runbook.steps[runbook.getCurrentIndex()].status === 'failed'
+					? `Step ${current} failed. Retry it, skip it, or continue with the next step.`
+					: `Step ${current} did not run. Retry or skip it.`;
+			case 'stopped':
+				return `Stopped at step ${current} of ${total}`;
+			case 'finished': {
+				const count = (status: StepStatus) => runbook.steps.filter((s) => s.status === status).length;
+				return `Finished: ${count('succeeded')} succeeded, ${count('failed')} failed, ${count('skipped')} skipped`;
+			}
+		}
+	}
+
+	private getStepResult(step: RunbookStep): string | null {
+		if (step.error) {
+			return step.error;
+		}
+		if (step.exitCode !== null) {
+			return `Exit code ${step.exitCode}`;
+		}
+		return null;
+	}
+}
@@ -0,0 +1,225 @@
+import { EventEmitter } from 'events';
+import { MarkdownView, TFile } from 'obsidian';
+import CodeUnblockTerminalPlugin from '../main';
+import { CodeBlock } from '../codeblock/detector';
+import { TrackedCommand } from '../codeblock/tracked-command';
+
+export type StepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * - ready: not started yet
+ * - running: a step is running
+ * - waiting: a step failed or did not start; waiting for retry, skip or continue
+ * - finished: every step ran or was skipped
+ * - stopped: stopped by the user
+ */
+export type RunbookState = 'ready' | 'running' | 'waiting' | 'finished' | 'stopped';
+
+export interface RunbookStep {
+	block: CodeBlock;
+	status: StepStatus;
+	exitCode: number | null;
+	// Why the step failed when there is no exit code
+	error: string | null;
+}
+
+/**
+ * Runbook runs a note's code blocks one after another.
+ *
+ * Each step waits for its command to finish before the next one starts.
+ * A non-zero exit pauses the runbook until the user retries the step,
+ * skips it, or continues past it.
+ *
+ * Events:
+ * - change: state or a step's status changed
+ */
+export class Runbook extends EventEmitter {
+	readonly file: TFile;
+	readonly steps: RunbookStep[];
+	private plugin: CodeUnblockTerminalPlugin;
+	private state: RunbookState = 'ready';
+	private currentIndex = 0;
+	private command: TrackedCommand | null = null;
+
+	constructor(plugin: CodeUnblockTerminalPlugin, file: TFile, blocks: CodeBlock[]) {
+		super();
+		this.plugin = plugin;
+		this.file = file;
+		this.steps = blocks.map((block) => ({ block, status: 'pending', exitCode: null, error: null }));
+	}
+
+	getState(): RunbookState {
+		return this.state;
+	}
+
+	/**
+	 * Index of the step running or waiting for a decision
+	 */
+	getCurrentIndex(): number {
+		return this.currentIndex;
+	}
+
+	/**
+	 * Start from the first step, or resume a stopped runbook at the step it stopped on
+	 */
+	async start(): Promise<void> {
+		if (this.state === 'running') {
+			return;
+		}
+
+		if (this.state === 'finished') {
+			this.currentIndex = 0;
+			this.steps.forEach((step) => this.resetStep(step));
+		}
+		await this.runSteps();
+	}
+
+	/**
+	 * Run the failed step again
+	 */
+	async retry(): Promise<void> {
+		if (this.state !== 'waiting') {
+			return;
+		}
+		this.resetStep(this.steps[this.currentIndex]);
+		await this.runSteps();
+	}
+
+	/**
+	 * Mark the current step as skipped and run the next one
+	 */
+	async skip(): Promise<void> {
+		if (this.state !== 'waiting') {
+			return;
+		}
+		this.steps[this.currentIndex].status = 'skipped';
+		this.currentIndex++;
+		await this.runSteps();
+	}
+
+	/**
+	 * Keep the current step's failure and run the next one
+	 */
+	async continue(): Promise<void> {
+		if (this.state !== 'waiting') {
+			return;
+		}
+		this.currentIndex++;
+		await this.runSteps();
+	}
+
+	/**
+	 * Stop waiting for the running step; the command keeps running in its terminal
+	 */
+	stop(): void {
+		if (this.state !== 'running' && this.state !== 'waiting') {
+			return;
+		}
+
+		const step = this.steps[this.currentIndex];
+		if (step?.status === 'running') {
+			step.status = 'pending';
+		}
+		this.state = 'stopped';
+		this.command?.cancel();
+		this.command = null;
+		this.plugin.blockHighlighter.set(null);
+		this.emit('change');
+	}
+
+	/**
+	 * Scroll the note's editor to a step
+	 */
+	reveal(index: number): void {
+		const step = this.steps[index];
+		if (!step) {
+			return;
+		}
+
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file === this.file) {
+				view.editor.scrollIntoView({
+					from: { line: step.block.startLine, ch: 0 },
+					to: { line: step.block.endLine, ch: 0 },
+				}, true);
+				return;
+			}
+		}
+	}
+
+	private async runSteps(): Promise<void> {
+		this.state = 'running';
+
+		while (this.currentIndex < this.steps.length) {
+			const step = this.steps[this.currentIndex];
+			this.resetStep(step);
+			step.status = 'running';
+			this.updateHighlight();
+			this.reveal(this.currentIndex);
+			this.emit('change');
+
+			const command = await this.plugin.codeBlockExecutor.runBlockTracked(step.block, {
+				sourcePath: this.file.path,
+			});
+			if (this.state !== 'running') {
+				// Stopped while the parameter or confirmation dialog was open
+				command?.cancel();
+				return;
+			}
+			if (!command) {
+				// Cancelled by the user or failed to start; the user has been told why
+				step.status = 'pending';
+				this.wait();
+				return;
+			}
+
+			this.command = command;
+			try {
+				const result = await command.result;
+				step.exitCode = result.exitCode;
+				step.status = result.exitCode === 0 ? 'succeeded' : 'failed';
+			} catch (error) {
+				if (this.state !== 'running') {
+					return;
+				}
+				step.status = 'failed';
+				step.error = error instanceof Error ? error.message : String(error);
+			} finally {
+				this.command = null;
+			}
+
+			if (step.status === 'failed') {
+				this.wait();
+				return;
+			}
+			this.currentIndex++;
+		}
+
+		this.state = 'finished';
+		this.plugin.blockHighlighter.set(null);
+		this.emit('change');
+	}
+
+	private wait(): void {
+		this.state = 'waiting';
+		this.updateHighlight();
+		this.emit('change');
+	}
+
+	private resetStep(step: RunbookStep): void {
+		step.status = 'pending';
+		step.exitCode = null;
+		step.error = null;
+	}
+
+	private updateHighlight(): void {
+		const step = this.steps[this.currentIndex];
+		this.plugin.blockHighlighter.set(step ? {
+			path: this.file.path,
+			startLine: step.block.startLine,
+			endLine: step.block.endLine,
+			status: step.status,
+		} : null);
+	}
+}
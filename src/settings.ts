@@ -1,5 +1,9 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting, setIcon } from 'obsidian';
 import CodeUnblockTerminalPlugin from './main';
+import { FRONTMATTER_VARIABLES_KEY, VariableStore } from './codeblock/variable-manager';
+import { ShellProfile } from './terminal/shell-manager';
+import { createProfileId } from './terminal/profile-manager';
+import { ProfileModal } from './terminal/profile-modal';
 
 export type PanelPosition = 'bottom' | 'left' | 'right';
 
@@ -12,7 +16,11 @@ export interface CodeUnblockTerminalSettings {
 	autoHideInReadingView: boolean;
 
 	// Shell settings
+	// Id of the default profile
 	defaultShell: string;
+	// null until seeded with the detected shells
+	profiles: ShellProfile[] | null;
+	enableShellIntegration: boolean;
 
 	// Appearance
 	fontFamily: string;
@@ -24,6 +32,13 @@ export interface CodeUnblockTerminalSettings {
 	// Behavior
 	warnBeforeClosingRunningProcess: boolean;
 	clearTerminalOnShellExit: boolean;
+
+	// Code block execution
+	showRunButtons: boolean;
+	promptForVariables: boolean;
+	// Fence language -> profile name or shell executable; comma-separated alternatives
+	languageProfiles: Record<string, string>;
+	variables: VariableStore;
 }
 
 export const DEFAULT_SETTINGS: CodeUnblockTerminalSettings = {
@@ -35,7 +50,9 @@ export const DEFAULT_SETTINGS: CodeUnblockTerminalSettings = {
 	autoHideInReadingView: false,
 
 	// Shell settings
-	defaultShell: 'pwsh',
+	defaultShell: '',
+	profiles: null,
+	enableShellIntegration: true,
 
 	// Appearance
 	fontFamily: 'Cascadia Code, Consolas, monospace',
@@ -47,8 +64,27 @@ export const DEFAULT_SETTINGS: CodeUnblockTerminalSettings = {
 	// Behavior
 	warnBeforeClosingRunningProcess: true,
 	clearTerminalOnShellExit: true,
+
+	// Code block execution
+	showRunButtons: true,
+	promptForVariables: true,
+	languageProfiles: {
+		bash: 'bash',
+		sh: 'bash',
+		zsh: 'zsh',
+		fish: 'fish',
+		powershell: 'pwsh, powershell',
+		ps1: 'pwsh, powershell',
+		pwsh: 'pwsh, powershell',
+		python: 'python',
+		py: 'python',
+		node: 'node',
+	},
+	variables: { vault: {}, folders: {} },
 };
 
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 export class CodeUnblockTerminalSettingTab extends PluginSettingTab {
 	plugin: CodeUnblockTerminalPlugin;
 
@@ -109,7 +145,7 @@ export class CodeUnblockTerminalSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Restore terminals on startup')
-			.setDesc('Reopen terminals that were open when Obsidian was closed')
+			.setDesc('Reopen terminals that were open when Obsidian was closed, with their working directories and previous output')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.restoreTerminalsOnStartup)
 				.onChange(async (value) => {
@@ -130,14 +166,23 @@ export class CodeUnblockTerminalSettingTab extends PluginSettingTab {
 		// Shell Settings Section
 		containerEl.createEl('h2', { text: 'Shell Settings' });
 
+		// Profiles may need to be detected first
+		const profilesEl = containerEl.createDiv();
+		void this.displayProfiles(profilesEl).catch((error: Error) => {
+			console.error('Failed to load shell profiles:', error);
+			profilesEl.createEl('p', {
+				cls: 'setting-item-description mod-warning',
+				text: `Failed to load shell profiles: ${error.message}`,
+			});
+		});
+
 		new Setting(containerEl)
-			.setName('Default shell')
-			.setDesc('Shell to use when opening new terminals (pwsh = PowerShell Core, powershell = Windows PowerShell)')
-			.addText(text => text
-				.setPlaceholder('pwsh')
-				.setValue(this.plugin.settings.defaultShell)
+			.setName('Shell integration')
+			.setDesc('Load a script into bash, zsh, fish and PowerShell that reports where each command starts and ends, its exit code and the current directory. Applies to new terminals.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableShellIntegration)
 				.onChange(async (value) => {
-					this.plugin.settings.defaultShell = value;
+					this.plugin.settings.enableShellIntegration = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -235,5 +280,298 @@ export class CodeUnblockTerminalSettingTab extends PluginSettingTab {
 					this.plugin.settings.clearTerminalOnShellExit = value;
 					await this.plugin.saveSettings();
 				}));
+
+		// Code Block Section
+		containerEl.createEl('h2', { text: 'Code Block Execution' });
+
+		new Setting(containerEl)
+			.setName('Show run buttons on code blocks')
+			.setDesc('Show run buttons on shell code blocks and blocks of languages with a shell below, in the editor and, for newly rendered notes, in reading view')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showRunButtons)
+				.onChange(async (value) => {
+					this.plugin.settings.showRunButtons = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateEditorExtensions();
+				}));
+
+		new Setting(containerEl)
+			.setName('Prompt for script parameters')
+			.setDesc('Ask for values of undefined variables such as $PROJECT_NAME before running a code block')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.promptForVariables)
+				.onChange(async (value) => {
+					this.plugin.settings.promptForVariables = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setHeading()
+			.setName('Language shells')
+			.setDesc('Shell each code block language runs in, by profile name or executable (e.g. "pwsh, powershell" tries pwsh first). Blocks of other shell languages run in the focused terminal.');
+
+		const languageProfiles = this.plugin.settings.languageProfiles;
+		for (const language of Object.keys(languageProfiles).sort()) {
+			new Setting(containerEl)
+				.setName(language)
+				.addText(text => text
+					.setValue(languageProfiles[language])
+					.onChange(async (value) => {
+						languageProfiles[language] = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove language')
+					.onClick(async () => {
+						delete languageProfiles[language];
+						await this.plugin.saveSettings();
+						this.plugin.updateEditorExtensions();
+						this.display();
+					}));
+		}
+
+		let newLanguage = '';
+		let newProfile = '';
+		new Setting(containerEl)
+			.setName('Add language')
+			.addText(text => text
+				.setPlaceholder('language')
+				.onChange((value) => {
+					newLanguage = value;
+				}))
+			.addText(text => text
+				.setPlaceholder('shell')
+				.onChange((value) => {
+					newProfile = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const language = newLanguage.trim().toLowerCase();
+					if (!language || !newProfile.trim()) {
+						new Notice('Enter a language and a shell');
+						return;
+					}
+					languageProfiles[language] = newProfile.trim();
+					await this.plugin.saveSettings();
+					this.plugin.updateEditorExtensions();
+					this.display();
+				}));
+
+		// Saved Variables Section
+		containerEl.createEl('h2', { text: 'Saved Variables' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: `Values used for script parameters without asking. Values remembered for the session come first, then the note's "${FRONTMATTER_VARIABLES_KEY}" frontmatter, then the note's folder and its parent folders, then the vault.`,
+		});
+
+		const store = this.plugin.settings.variables;
+
+		containerEl.createEl('h3', { text: 'Vault' });
+		this.displayVariables(containerEl, store.vault);
+
+		for (const folder of Object.keys(store.folders).sort()) {
+			new Setting(containerEl)
+				.setHeading()
+				.setName(`Folder: ${folder}`)
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove folder and its variables')
+					.onClick(async () => {
+						delete store.folders[folder];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			this.displayVariables(containerEl, store.folders[folder]);
+		}
+
+		let newFolder = '';
+		new Setting(containerEl)
+			.setName('Add folder')
+			.setDesc('Folder path relative to the vault root, e.g. projects/backend')
+			.addText(text => text
+				.setPlaceholder('projects/backend')
+				.onChange((value) => {
+					newFolder = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const folder = newFolder.trim().replace(/^\/+|\/+$/g, '');
+					if (!folder) {
+						new Notice('Enter a folder path');
+						return;
+					}
+					store.folders[folder] = store.folders[folder] ?? {};
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Default shell dropdown and the editable list of shell profiles
+	 */
+	private async displayProfiles(containerEl: HTMLElement): Promise<void> {
+		const profiles = await this.plugin.getProfiles();
+		const defaultProfile = this.plugin.profileManager.getDefaultProfile(profiles);
+
+		new Setting(containerEl)
+			.setName('Default shell')
+			.setDesc('Profile to use when opening new terminals')
+			.addDropdown(dropdown => {
+				profiles.forEach((profile) => dropdown.addOption(profile.id ?? '', profile.name));
+				dropdown
+					.setValue(defaultProfile?.id ?? '')
+					.onChange(async (value) => {
+						this.plugin.settings.defaultShell = value;
+						await this.plugin.saveSettings();
+						await this.plugin.getTerminalView()?.updateProfiles();
+					});
+			});
+
+		new Setting(containerEl)
+			.setHeading()
+			.setName('Profiles')
+			.setDesc('Shells offered in the terminal\'s shell selector, in this order');
+
+		profiles.forEach((profile, i) => {
+			const setting = new Setting(containerEl)
+				.setName(profile.name)
+				.setDesc([profile.shell, ...(profile.args ?? [])].join(' '))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(i === 0)
+					.onClick(async () => {
+						if (i > 0) {
+							profiles.splice(i - 1, 0, ...profiles.splice(i, 1));
+							await this.saveProfiles();
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(i === profiles.length - 1)
+					.onClick(async () => {
+						if (i < profiles.length - 1) {
+							profiles.splice(i + 1, 0, ...profiles.splice(i, 1));
+							await this.saveProfiles();
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit profile')
+					.onClick(async () => {
+						const edited = await new ProfileModal(this.app, profile, 'Edit Profile').prompt();
+						if (edited) {
+							profiles[i] = edited;
+							await this.saveProfiles();
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('copy')
+					.setTooltip('Duplicate profile')
+					.onClick(async () => {
+						profiles.splice(i + 1, 0, { ...profile, id: createProfileId(), name: `${profile.name} (copy)` });
+						await this.saveProfiles();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete profile')
+					.onClick(async () => {
+						profiles.splice(i, 1);
+						await this.saveProfiles();
+					}));
+
+			const iconEl = setting.nameEl.createSpan({ cls: 'code-unblock-profile-icon', prepend: true });
+			setIcon(iconEl, profile.icon || 'terminal');
+			if (profile.color) {
+				iconEl.style.color = profile.color;
+			}
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add detected shells')
+				.onClick(async () => {
+					const shells = await this.plugin.profileManager.getUnconfiguredShells();
+					if (shells.length === 0) {
+						new Notice('Every detected shell already has a profile');
+						return;
+					}
+					profiles.push(...shells.map((shell) => ({ ...shell, id: createProfileId() })));
+					await this.saveProfiles();
+				}))
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.setCta()
+				.onClick(async () => {
+					const created = await new ProfileModal(this.app, { name: '', shell: '' }, 'New Profile').prompt();
+					if (created) {
+						profiles.push({ ...created, id: createProfileId() });
+						await this.saveProfiles();
+					}
+				}));
+	}
+
+	/**
+	 * Save edited profiles and show them in the terminal and the settings
+	 */
+	private async saveProfiles(): Promise<void> {
+		await this.plugin.saveSettings();
+		await this.plugin.getTerminalView()?.updateProfiles();
+		this.display();
+	}
+
+	/**
+	 * Editable list of saved variables, followed by a row to add one
+	 */
+	private displayVariables(containerEl: HTMLElement, values: Record<string, string>): void {
+		for (const name of Object.keys(values).sort()) {
+			new Setting(containerEl)
+				.setName(name)
+				.addText(text => text
+					.setValue(values[name])
+					.onChange(async (value) => {
+						values[name] = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete variable')
+					.onClick(async () => {
+						delete values[name];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		let newName = '';
+		let newValue = '';
+		new Setting(containerEl)
+			.setName('Add variable')
+			.addText(text => text
+				.setPlaceholder('NAME')
+				.onChange((value) => {
+					newName = value;
+				}))
+			.addText(text => text
+				.setPlaceholder('value')
+				.onChange((value) => {
+					newValue = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const name = newName.trim();
+					if (!VARIABLE_NAME_PATTERN.test(name)) {
+						new Notice('Variable names may only contain letters, digits and underscores');
+						return;
+					}
+					values[name] = newValue;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 }
@@ -0,0 +1,118 @@
+import { IDecoration } from '@xterm/xterm';
+import { CommandTracker, TerminalCommand } from './command-tracker';
+import { XtermManager } from './xterm-manager';
+
+/**
+ * CommandDecorations draws a mark in the left gutter of each command's prompt
+ * line showing whether the command is running, succeeded or failed.
+ *
+ * Marks are xterm decorations anchored to the prompt's marker, so they scroll
+ * with the buffer and disappear with the line.
+ */
+export class CommandDecorations {
+	private xtermManager: XtermManager;
+	private tracker: CommandTracker;
+	private decorations = new Map<number, { command: TerminalCommand; decoration: IDecoration }>();
+
+	// Track tracker event listeners for cleanup
+	private trackerEventListeners: Array<{
+		event: string;
+		handler: (...args: any[]) => void;
+	}> = [];
+
+	constructor(xtermManager: XtermManager, tracker: CommandTracker) {
+		this.xtermManager = xtermManager;
+		this.tracker = tracker;
+
+		const startHandler = (command: TerminalCommand) => this.decorate(command);
+		const finishHandler = (command: TerminalCommand) => this.update(command);
+
+		tracker.on('command-start', startHandler);
+		tracker.on('command-finish', finishHandler);
+
+		this.trackerEventListeners = [
+			{ event: 'command-start', handler: startHandler },
+			{ event: 'command-finish', handler: finishHandler },
+		];
+	}
+
+	dispose(): void {
+		this.trackerEventListeners.forEach(({ event, handler }) => {
+			this.tracker.off(event, handler);
+		});
+		this.trackerEventListeners = [];
+
+		this.decorations.forEach(({ decoration }) => decoration.dispose());
+		this.decorations.clear();
+	}
+
+	private decorate(command: TerminalCommand): void {
+		if (command.promptMarker.isDisposed) {
+			return;
+		}
+
+		const decoration = this.xtermManager.registerDecoration({
+			marker: command.promptMarker,
+			width: 1,
+		});
+		if (!decoration) {
+			return;
+		}
+
+		this.decorations.set(command.id, { command, decoration });
+		decoration.onRender((element) => this.applyStatus(element, command));
+		decoration.onDispose(() => this.decorations.delete(command.id));
+	}
+
+	private update(command: TerminalCommand): void {
+		const element = this.decorations.get(command.id)?.decoration.element;
+		if (element) {
+			this.applyStatus(element, command);
+		}
+	}
+
+	private applyStatus(element: HTMLElement, command: TerminalCommand): void {
+		const status = getStatus(command);
+		element.addClass('terminal-command-mark');
+		element.toggleClass('is-running', status === 'running');
+		element.toggleClass('is-success', status === 'success');
+		element.toggleClass('is-failure', status === 'failure');
+		element.setAttribute('aria-label', getLabel(command, status));
+	}
+}
+
+type CommandStatus = 'running' | 'success' | 'failure' | 'unknown';
+
+function getStatus(command: TerminalCommand): CommandStatus {
+	if (command.endTime === null) {
+		return 'running';
+	}
+	if (command.exitCode === null) {
+		return 'unknown';
+	}
+	return command.exitCode === 0 ? 'success' : 'failure';
+}
+
+function getLabel(command: TerminalCommand, status: CommandStatus): string {
+	if (status === 'running') {
+		return 'Running';
+	}
+
+	const duration = command.startTime !== null && command.endTime !== null
+		? ` in ${formatDuration(command.endTime - command.startTime)}`
+		: '';
+	return status === 'unknown'
+		? `Finished${duration}`
+		: `Exit code ${command.exitCode}${duration}`;
+}
+
+function formatDuration(ms: number): string {
+	if (ms < 1000) {
+		return `${ms}ms`;
+	}
+	const seconds = ms / 1000;
+	if (seconds < 60) {
+		return `${seconds.toFixed(1)}s`;
+	}
+	return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { IMarker } from '@xterm/xterm';
+import { XtermManager } from './xterm-manager';
+
+/**
+ * A command run at a shell prompt, as reported by shell integration
+ * Markers track buffer lines; they are disposed once the line is trimmed
+ * from the scrollback.
+ */
+export interface TerminalCommand {
+	id: number;
+	// Line where the prompt starts
+	promptMarker: IMarker;
+	// Line where the command was typed
+	inputMarker: IMarker | null;
+	// Line where the command's output starts
+	outputMarker: IMarker | null;
+	// Line where the command finished
+	endMarker: IMarker | null;
+	// null while running, or if the shell did not report it
+	exitCode: number | null;
+	startTime: number | null;
+	endTime: number | null;
+	// Directory the command ran in
+	cwd: string | null;
+}
+
+// Commands kept after their lines have left the scrollback are pruned; this
+// also caps the list for terminals with very large scrollback
+const MAX_COMMANDS = 1000;
+
+/**
+ * CommandTracker builds a model of the commands run in a terminal from the
+ * OSC 133 (prompt/command/exit) and OSC 7 (cwd) sequences emitted by shell
+ * integration scripts.
+ *
+ * Events:
+ * - prompt (command): a new prompt was shown
+ * - command-start (command): a command started executing
+ * - command-finish (command): a command finished; exitCode is set
+ * - cwd-change (cwd): the shell's directory changed
+ */
+export class CommandTracker extends EventEmitter {
+	private static nextId = 1;
+
+	private xtermManager: XtermManager;
+	private commands: TerminalCommand[] = [];
+	private current: TerminalCommand | null = null;
+	private cwd: string | null = null;
+	private disposables: Array<() => void> = [];
+
+	constructor(xtermManager: XtermManager) {
+		super();
+		this.xtermManager = xtermManager;
+		this.disposables.push(
+			xtermManager.registerOscHandler(133, (data) => this.handlePromptSequence(data)),
+			xtermManager.registerOscHandler(7, (data) => this.handleCwdSequence(data)),
+		);
+	}
+
+	/**
+	 * Commands still in the scrollback, oldest first
+	 */
+	getCommands(): TerminalCommand[] {
+		return this.commands;
+	}
+
+	/**
+	 * Most recent command that has finished
+	 */
+	getLastFinishedCommand(): TerminalCommand | null {
+		for (let i = this.commands.length - 1; i >= 0; i--) {
+			if (this.commands[i].endTime !== null) {
+				return this.commands[i];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Command currently executing, if any
+	 */
+	getRunningCommand(): TerminalCommand | null {
+		const command = this.current;
+		return command && command.startTime !== null && command.endTime === null ? command : null;
+	}
+
+	/**
+	 * Buffer lines holding a command's output, inclusive
+	 * A running command's output extends to the cursor. Null when the command
+	 * has not started or its lines have left the scrollback.
+	 */
+	getOutputRange(command: TerminalCommand): { start: number; end: number } | null {
+		const outputMarker = command.outputMarker;
+		if (!outputMarker || outputMarker.isDisposed) {
+			return null;
+		}
+
+		const start = outputMarker.line;
+		let end: number;
+		if (command.endMarker && !command.endMarker.isDisposed) {
+			// The shell reports the end on the line after the output, unless the
+			// output did not end with a newline
+			end = Math.max(start, command.endMarker.line - 1);
+		} else if (command.endTime === null) {
+			end = Math.max(start, this.xtermManager.getCursorLine());
+		} else {
+			return null;
+		}
+		return { start, end };
+	}
+
+	/**
+	 * Directory last reported by the shell
+	 */
+	getCwd(): string | null {
+		return this.cwd;
+	}
+
+	/**
+	 * Whether the shell has reported any prompt, i.e. shell integration is active
+	 */
+	isActive(): boolean {
+		return this.commands.length > 0;
+	}
+
+	/**
+	 * Forget all commands, e.g. after the shell restarted
+	 */
+	reset(): void {
+		this.commands.forEach((command) => this.disposeMarkers(command));
+		this.commands = [];
+		this.current = null;
+	}
+
+	dispose(): void {
+		this.disposables.forEach((dispose) => dispose());
+		this.disposables = [];
+		this.reset();
+		this.removeAllListeners();
+	}
+
+	private handlePromptSequence(data: string): void {
+		const [kind, ...params] = data.split(';');
+
+		switch (kind) {
+			case 'A': {
+				const marker = this.xtermManager.registerMarker();
+				if (!marker) {
+					return;
+				}
+				this.prune();
+				this.current = {
+					id: CommandTracker.nextId++,
+					promptMarker: marker,
+					inputMarker: null,
+					outputMarker: null,
+					endMarker: null,
+					exitCode: null,
+					startTime: null,
+					endTime: null,
+					cwd: this.cwd,
+				};
+				this.commands.push(this.current);
+				this.emit('prompt', this.current);
+				break;
+			}
+			case 'B':
+				if (this.current && !this.current.inputMarker) {
+					this.current.inputMarker = this.xtermManager.registerMarker();
+				}
+				break;
+			case 'C':
+				if (this.current && this.current.startTime === null) {
+					this.current.outputMarker = this.xtermManager.registerMarker();
+					this.current.startTime = Date.now();
+					this.emit('command-start', this.current);
+				}
+				break;
+			case 'D': {
+				const command = this.current;
+				if (!command || command.startTime === null || command.endTime !== null) {
+					return;
+				}
+				const exitCode = parseInt(params[0], 10);
+				command.exitCode = isNaN(exitCode) ? null : exitCode;
+				command.endMarker = this.xtermManager.registerMarker();
+				command.endTime = Date.now();
+				this.emit('command-finish', command);
+				break;
+			}
+		}
+	}
+
+	private handleCwdSequence(data: string): void {
+		const cwd = parseFileUrl(data);
+		if (cwd && cwd !== this.cwd) {
+			this.cwd = cwd;
+			this.emit('cwd-change', cwd);
+		}
+	}
+
+	/**
+	 * Drop commands whose prompt has left the scrollback
+	 */
+	private prune(): void {
+		const kept = this.commands.filter((command) => !command.promptMarker.isDisposed);
+		while (kept.length >= MAX_COMMANDS) {
+			const removed = kept.shift();
+			if (removed) {
+				this.disposeMarkers(removed);
+			}
+		}
+		this.commands = kept;
+	}
+
+	private disposeMarkers(command: TerminalCommand): void {
+		command.promptMarker.dispose();
+		command.inputMarker?.dispose();
+		command.outputMarker?.dispose();
+		command.endMarker?.dispose();
+	}
+}
+
+/**
+ * Local path of an OSC 7 `file://host/path` URL
+ * Windows paths arrive as `/C:/Users/...`.
+ */
+function parseFileUrl(url: string): string | null {
+	const match = /^file:\/\/[^/]*(\/.*)$/.exec(url);
+	if (!match) {
+		return null;
+	}
+
+	let path: string;
+	try {
+		path = decodeURIComponent(match[1]);
+	} catch {
+		path = match[1];
+	}
+
+	if (/^\/[A-Za-z]:/.test(path)) {
+		return path.slice(1).replace(/\//g, '\\');
+	}
+	return path;
+}
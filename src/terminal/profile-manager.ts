@@ -0,0 +1,78 @@
+import CodeUnblockTerminalPlugin from '../main';
+import { getExecutableName, ShellManager, ShellProfile } from './shell-manager';
+
+/**
+ * ProfileManager owns the shell profiles saved in the settings.
+ *
+ * Responsibilities:
+ * - Seed the profiles with the shells detected on first use
+ * - Resolve the default profile
+ * - Find detected shells that have no profile yet
+ */
+export class ProfileManager {
+	private plugin: CodeUnblockTerminalPlugin;
+	private detectedShells: Promise<ShellProfile[]> | null = null;
+
+	constructor(plugin: CodeUnblockTerminalPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Profiles in the order shown to the user
+	 * The first call after installing saves the detected shells as profiles.
+	 */
+	async getProfiles(): Promise<ShellProfile[]> {
+		if (!this.plugin.settings.profiles) {
+			const detected = await this.detectShells();
+			// Another caller may have seeded the profiles while detecting
+			if (!this.plugin.settings.profiles) {
+				this.plugin.settings.profiles = detected.map((profile) => ({ ...profile, id: createProfileId() }));
+				await this.plugin.saveSettings();
+			}
+		}
+		return this.plugin.settings.profiles as ShellProfile[];
+	}
+
+	/**
+	 * Profile new terminals start with: the one chosen in the settings, falling
+	 * back to the user's login shell on macOS and Linux, then the first profile
+	 */
+	getDefaultProfile(profiles: ShellProfile[]): ShellProfile | null {
+		const wanted = this.plugin.settings.defaultShell;
+		const loginShell = ShellManager.getLoginShell();
+		return profiles.find((p) => p.id === wanted)
+			// Settings from before profiles stored a shell executable
+			?? (wanted ? ShellManager.findProfile(profiles, wanted) : null)
+			?? profiles.find((p) => p.shell === loginShell)
+			?? (loginShell ? ShellManager.findProfile(profiles, getExecutableName(loginShell)) : null)
+			?? profiles[0]
+			?? null;
+	}
+
+	/**
+	 * Detected shells whose executable and arguments match no profile
+	 */
+	async getUnconfiguredShells(): Promise<ShellProfile[]> {
+		const [profiles, detected] = await Promise.all([this.getProfiles(), this.detectShells()]);
+		return detected.filter((shell) => !profiles.some((p) =>
+			p.shell === shell.shell && JSON.stringify(p.args ?? []) === JSON.stringify(shell.args ?? [])
+		));
+	}
+
+	/**
+	 * Shells available on this system, detected once per plugin load
+	 */
+	private detectShells(): Promise<ShellProfile[]> {
+		if (!this.detectedShells) {
+			this.detectedShells = ShellManager.detectAvailableShells();
+		}
+		return this.detectedShells;
+	}
+}
+
+/**
+ * Unique id for a new profile
+ */
+export function createProfileId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
@@ -0,0 +1,210 @@
+import { App, Modal, Notice, Setting, setIcon } from 'obsidian';
+import { ShellProfile } from './shell-manager';
+
+const ENV_LINE_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+
+/**
+ * Modal to create or edit a shell profile
+ */
+export class ProfileModal extends Modal {
+	private profile: ShellProfile;
+	private heading: string;
+	private argsText: string;
+	private envText: string;
+	private initCommandsText: string;
+	private resolve: ((profile: ShellProfile | null) => void) | null = null;
+
+	/**
+	 * @param profile Profile to edit; it is copied, not modified
+	 * @param heading Title of the modal
+	 */
+	constructor(app: App, profile: ShellProfile, heading: string) {
+		super(app);
+		this.profile = { ...profile };
+		this.heading = heading;
+		this.argsText = (profile.args ?? []).join('\n');
+		this.envText = Object.entries(profile.env ?? {}).map(([key, value]) => `${key}=${value}`).join('\n');
+		this.initCommandsText = (profile.initCommands ?? []).join('\n');
+	}
+
+	/**
+	 * Open the modal and wait for the user
+	 * @returns The edited profile, or null if cancelled
+	 */
+	prompt(): Promise<ShellProfile | null> {
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('code-unblock-profile-modal');
+		this.titleEl.setText(this.heading);
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(this.profile.name)
+				.onChange((value) => {
+					this.profile.name = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Executable')
+			.setDesc('Command name on PATH or full path, e.g. pwsh or /usr/bin/zsh')
+			.addText(text => text
+				.setValue(this.profile.shell)
+				.onChange((value) => {
+					this.profile.shell = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Arguments')
+			.setDesc('One argument per line')
+			.addTextArea(text => text
+				.setPlaceholder('-NoLogo')
+				.setValue(this.argsText)
+				.onChange((value) => {
+					this.argsText = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Environment variables')
+			.setDesc('One KEY=value per line, added to Obsidian\'s environment')
+			.addTextArea(text => text
+				.setPlaceholder('EDITOR=vim')
+				.setValue(this.envText)
+				.onChange((value) => {
+					this.envText = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Working directory')
+			.setDesc('Directory new terminals start in; ~ is your home directory. {vault}, {note-dir}, {folder} and {file} are the vault, the active note\'s folder, its vault-relative path and the note\'s name. Leave empty to start in the vault.')
+			.addText(text => text
+				.setPlaceholder('{note-dir}')
+				.setValue(this.profile.cwd ?? '')
+				.onChange((value) => {
+					this.profile.cwd = value.trim() || undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName('.env file')
+			.setDesc('File of KEY=value lines, relative to the working directory, added to the environment when the shell starts')
+			.addText(text => text
+				.setPlaceholder('.env')
+				.setValue(this.profile.envFile ?? '')
+				.onChange((value) => {
+					this.profile.envFile = value.trim() || undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName('Startup commands')
+			.setDesc('Commands typed once the shell has started, one per line')
+			.addTextArea(text => text
+				.setPlaceholder('source .venv/bin/activate')
+				.setValue(this.initCommandsText)
+				.onChange((value) => {
+					this.initCommandsText = value;
+				}));
+
+		const iconSetting = new Setting(contentEl)
+			.setName('Icon')
+			.setDesc('Lucide icon name shown on the profile\'s tabs, e.g. terminal-square')
+			.addText(text => text
+				.setPlaceholder('terminal')
+				.setValue(this.profile.icon ?? '')
+				.onChange((value) => {
+					this.profile.icon = value.trim() || undefined;
+					updateIconPreview();
+				}));
+		const iconPreviewEl = iconSetting.controlEl.createDiv('code-unblock-profile-icon-preview');
+		const updateIconPreview = () => {
+			iconPreviewEl.empty();
+			setIcon(iconPreviewEl, this.profile.icon || 'terminal');
+		};
+		updateIconPreview();
+
+		new Setting(contentEl)
+			.setName('Colour')
+			.setDesc('Colour of the profile\'s tab icon')
+			.addColorPicker(picker => picker
+				.setValue(this.profile.color ?? '#888888')
+				.onChange((value) => {
+					this.profile.color = value;
+				}))
+			.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip('Use the default colour')
+				.onClick(() => {
+					this.profile.color = undefined;
+					this.onOpen();
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+
+		// Closing without saving discards the changes
+		this.resolve?.(null);
+		this.resolve = null;
+	}
+
+	private submit(): void {
+		const name = this.profile.name.trim();
+		const shell = this.profile.shell.trim();
+		if (!name || !shell) {
+			new Notice('Enter a name and an executable');
+			return;
+		}
+
+		const env = parseEnvLines(this.envText);
+		if (!env) {
+			new Notice('Environment variables must be KEY=value lines');
+			return;
+		}
+
+		const args = this.argsText.split(/\r?\n/).filter((arg) => arg.trim() !== '');
+		const profile: ShellProfile = { ...this.profile, name, shell };
+		profile.args = args.length > 0 ? args : undefined;
+		profile.env = Object.keys(env).length > 0 ? env : undefined;
+
+		const initCommands = this.initCommandsText.split(/\r?\n/).filter((command) => command.trim() !== '');
+		profile.initCommands = initCommands.length > 0 ? initCommands : undefined;
+
+		this.resolve?.(profile);
+		this.resolve = null;
+		this.close();
+	}
+}
+
+/**
+ * Parse KEY=value lines, ignoring blank lines
+ * @returns The variables, or null if a line is not KEY=value
+ */
+function parseEnvLines(text: string): Record<string, string> | null {
+	const env: Record<string, string> = {};
+	for (const line of text.split(/\r?\n/)) {
+		if (!line.trim()) {
+			continue;
+		}
+		const match = ENV_LINE_PATTERN.exec(line.trim());
+		if (!match) {
+			return null;
+		}
+		env[match[1]] = match[2];
+	}
+	return env;
+}
@@ -8,27 +8,70 @@
  *
  * Architecture: Plugin (Renderer) <-> IPC <-> PTY Host (Node.js) <-> node-pty <-> Shell
  *
- * IPC Protocol:
- * - spawn: Create new PTY process
- * - write: Write data to PTY stdin
- * - resize: Resize PTY dimensions
- * - kill: Terminate PTY process
+ * IPC Protocol (message types are defined in pty-protocol.ts):
+ * - spawn: Create new PTY process, answered with spawned
+ * - write: Write data to PTY stdin (not answered)
+ * - resize: Resize PTY dimensions, answered with resized
+ * - kill: Terminate PTY process, answered with killed
+ * - ack: Characters of output the plugin has displayed (not answered)
+ * - stats: Output counters of a PTY, answered with stats
+ * - exec: Run a command to completion without a terminal, answered with exec-result
+ *
+ * A failed request is answered with an error carrying the same requestId.
+ *
+ * When node-pty cannot be loaded the host falls back to a pipe backend: shells
+ * run without a terminal, input is sent line by line and resize does nothing.
  *
  * Events sent to parent:
- * - ready: Host initialized successfully
- * - data: PTY stdout/stderr data
+ * - ready: Host initialized successfully, with the protocol version and backend
+ * - data: PTY stdout/stderr data, batched and flow controlled
  * - exit: PTY process exited
  * - error: Error occurred
  */
 
+/** @typedef {import('./pty-protocol').PluginMessage} PluginMessage */
+/** @typedef {import('./pty-protocol').HostMessage} HostMessage */
+/** @typedef {import('./pty-protocol').HostErrorCode} HostErrorCode */
+
 const path = require('path');
 const fs = require('fs');
 
+// Keep in sync with PROTOCOL_VERSION in pty-protocol.ts
+const PROTOCOL_VERSION = 5;
+
+// Output read within this many milliseconds is sent as one data message
+const OUTPUT_BATCH_INTERVAL = 5;
+// Send a batch right away once it holds this many characters
+const OUTPUT_BATCH_MAX = 64 * 1024;
+// Pause reading from a PTY while more characters than this are unacked, and
+// resume once fewer than the low watermark are. The plugin acks in steps
+// smaller than the low watermark.
+const HIGH_WATERMARK = 100000;
+const LOW_WATERMARK = 10000;
+
+// Output of an exec beyond this many characters per stream is dropped
+const EXEC_OUTPUT_LIMIT = 16 * 1024 * 1024;
+// Time a timed out exec gets to exit after SIGTERM before it is killed
+const EXEC_KILL_GRACE = 2000;
+
 // Track active PTY processes by ID
 const ptyProcesses = new Map();
 
-// node-pty module (loaded after initialization)
+// Commands running through exec, by request ID, each with a function killing it
+const executions = new Map();
+
+/**
+ * Output batching and flow control state of each PTY, by ID
+ * Kept until the PTY exits, so output read before a kill still goes out.
+ *
+ * @type {Map<number, { ptyProcess: any, chunks: string[], bufferedChars: number, timer: NodeJS.Timeout | null, stats: import('./pty-protocol').OutputStats }>}
+ */
+const outputs = new Map();
+
+// node-pty module, or the pipe backend standing in for it (set by initializePTY)
 let pty = null;
+/** @type {import('./pty-protocol').PTYBackend} */
+let backend = 'node-pty';
 
 // Debug logging helper (logs to both file and stderr for troubleshooting)
 const DEBUG = false; // Set to true for detailed logging
@@ -55,7 +98,7 @@ function debugLog(message) {
  * Safely send a message to the parent process.
  * Prevents crashes if parent is disconnected or send fails.
  *
- * @param {object} message - The IPC message to send
+ * @param {HostMessage} message - The IPC message to send
  * @returns {boolean} - True if message was sent successfully
  */
 function safeSend(message) {
@@ -65,7 +108,10 @@ function safeSend(message) {
 	}
 
 	try {
-		debugLog('[PTY Host] Sending IPC message: ' + message.type);
+		// Data messages are too frequent to log
+		if (message.type !== 'data') {
+			debugLog('[PTY Host] Sending IPC message: ' + message.type);
+		}
 		return process.send(message);
 	} catch (error) {
 		debugLog('[PTY Host] Failed to send message: ' + error);
@@ -73,6 +119,43 @@ function safeSend(message) {
 	}
 }
 
+/**
+ * Report a failed request or PTY operation to the parent
+ *
+ * @param {number | undefined} requestId - Request being answered, if any
+ * @param {number | undefined} id - PTY the error concerns, if any
+ * @param {Error & { hostCode?: HostErrorCode }} error - The error; its hostCode wins over the default
+ * @param {HostErrorCode} code - Default error code
+ */
+function sendError(requestId, id, error, code) {
+	safeSend({
+		type: 'error',
+		requestId,
+		id,
+		error: {
+			message: error.message,
+			stack: error.stack,
+			code: error.hostCode || code
+		}
+	});
+}
+
+/**
+ * Look up an active PTY process
+ * @throws {Error} with code PTY_NOT_FOUND when there is none
+ */
+function getPTYProcess(id) {
+	const ptyProcess = ptyProcesses.get(id);
+
+	if (!ptyProcess) {
+		const error = new Error(`PTY process ${id} not found`);
+		error.hostCode = 'PTY_NOT_FOUND';
+		throw error;
+	}
+
+	return ptyProcess;
+}
+
 /**
  * Initialize the PTY module
  */
@@ -105,30 +188,175 @@ function initializePTY() {
 			throw new Error(`Failed to load node-pty from ${nodePtyPath}: spawn function not available`);
 		}
 
-		// Send ready signal to parent (using nextTick to avoid race condition)
-		process.nextTick(() => {
-			safeSend({
-				type: 'ready',
-				message: 'PTY host initialized successfully'
-			});
-		});
+		sendReady();
 	} catch (error) {
-		console.error('[PTY Host] CRITICAL ERROR during initialization:', error);
+		console.error('[PTY Host] node-pty unavailable, falling back to pipes:', error);
 
-		// Send error to parent
-		process.nextTick(() => {
-			safeSend({
-				type: 'error',
-				error: {
-					message: error.message,
-					stack: error.stack,
-					code: 'PTY_INIT_FAILED'
-				}
-			});
+		pty = createPipeBackend();
+		backend = 'pipe';
+		sendReady(error.message);
+	}
+}
+
+/**
+ * Send the ready signal to the parent (using nextTick to avoid race condition)
+ *
+ * @param {string} [fallbackReason] - Why node-pty could not be used
+ */
+function sendReady(fallbackReason) {
+	process.nextTick(() => {
+		safeSend({
+			type: 'ready',
+			protocolVersion: PROTOCOL_VERSION,
+			backend,
+			fallbackReason
 		});
+	});
+}
+
+/**
+ * Create a stand-in for node-pty that runs processes with plain pipes
+ *
+ * There is no terminal: programs see no TTY, so prompts, colours and
+ * full-screen programs may be missing. The backend echoes typed input and
+ * sends it to the process a line at a time, with backspace editing. Ctrl+C
+ * discards a line being typed, or else sends SIGINT to the process and the
+ * commands it started (not on Windows, which has no process groups). Ctrl+D
+ * sends a line being typed without a newline, or else closes the input.
+ * Resize does nothing.
+ */
+function createPipeBackend() {
+	const { spawn } = require('child_process');
+	const isWindows = process.platform === 'win32';
+
+	return {
+		spawn(file, args, options) {
+			// On POSIX the process leads its own process group, so signals
+			// also reach the commands it runs
+			const child = spawn(file, args, {
+				cwd: options.cwd,
+				env: options.env,
+				detached: !isWindows,
+				windowsHide: true,
+			});
+
+			const dataCallbacks = [];
+			const exitCallbacks = [];
+			let line = '';
+
+			// Without a terminal nothing turns \n into \r\n
+			const emitData = (data) => {
+				const text = String(data).replace(/\r?\n/g, '\r\n');
+				dataCallbacks.forEach((callback) => callback(text));
+			};
+
+			child.stdout.setEncoding('utf8');
+			child.stderr.setEncoding('utf8');
+			child.stdout.on('data', emitData);
+			child.stderr.on('data', emitData);
+			child.stdin.on('error', () => {});
+			child.on('error', (error) => emitData(`${error.message}\n`));
+			child.on('close', (code, signal) => {
+				const exitCode = code === null ? 1 : code;
+				const signalNumber = signal ? require('os').constants.signals[signal] : undefined;
+				exitCallbacks.forEach((callback) => callback({ exitCode, signal: signalNumber }));
+			});
+
+			return {
+				pid: child.pid,
+				onData(callback) {
+					dataCallbacks.push(callback);
+				},
+				onExit(callback) {
+					exitCallbacks.push(callback);
+				},
+				write(data) {
+					// Ignore escape sequences such as arrow keys
+					if (data.startsWith('\x1b')) {
+						return;
+					}
+
+					let echo = '';
+					for (const char of data) {
+						if (char === '\r' || char === '\n') {
+							echo += '\r\n';
+							child.stdin.write(line + '\n');
+							line = '';
+						} else if (char === '\x7f' || char === '\b') {
+							if (line) {
+								line = line.slice(0, -1);
+								echo += '\b \b';
+							}
+						} else if (char === '\x03') {
+							echo += '^C\r\n';
+							if (!line && !isWindows) {
+								killProcessGroup(child, 'SIGINT');
+							}
+							line = '';
+						} else if (char === '\x04') {
+							// Like a terminal: a pending line is sent as is,
+							// an empty one ends the input
+							if (line) {
+								child.stdin.write(line);
+								line = '';
+							} else {
+								child.stdin.end();
+							}
+						} else if (char >= ' ' || char === '\t') {
+							line += char;
+							echo += char;
+						}
+					}
+
+					if (echo) {
+						dataCallbacks.forEach((callback) => callback(echo));
+					}
+				},
+				resize() {
+					// No terminal to resize
+				},
+				kill(signal) {
+					killProcessGroup(child, signal || 'SIGHUP');
+				},
+				pause() {
+					child.stdout.pause();
+					child.stderr.pause();
+				},
+				resume() {
+					child.stdout.resume();
+					child.stderr.resume();
+				}
+			};
+		}
+	};
+}
 
-		// Delay exit to allow error message to be sent
-		setTimeout(() => process.exit(1), 100);
+/**
+ * Keys that end a terminal's input after the given data has been typed
+ * Ctrl+D only ends the input at the start of a line, so a partial last line
+ * needs one to send it first. Windows consoles take Ctrl+Z and Enter instead.
+ */
+function endOfInput(data) {
+	const atLineStart = data === '' || /[\r\n]$/.test(data);
+	if (process.platform === 'win32' && backend !== 'pipe') {
+		return atLineStart ? '\x1a\r' : '\r\x1a\r';
+	}
+	return atLineStart ? '\x04' : '\x04\x04';
+}
+
+/**
+ * Send a signal to a detached child and the processes it started
+ * On Windows, or before the child has a pid, only the child is signalled.
+ */
+function killProcessGroup(child, signal) {
+	if (process.platform === 'win32' || !child.pid) {
+		child.kill(signal);
+		return;
+	}
+	try {
+		process.kill(-child.pid, signal);
+	} catch (error) {
+		// The group is gone already
 	}
 }
 
@@ -159,7 +387,7 @@ function resolveShellPath(shell) {
  * Handle spawn request from parent
  */
 function handleSpawn(message) {
-	const { id, shell, args = [], options = {} } = message;
+	const { requestId, id, shell, args = [], options = {} } = message;
 
 	try {
 		if (!pty) {
@@ -190,16 +418,31 @@ function handleSpawn(message) {
 		// Store process reference
 		ptyProcesses.set(id, ptyProcess);
 
+		outputs.set(id, {
+			ptyProcess,
+			chunks: [],
+			bufferedChars: 0,
+			timer: null,
+			stats: {
+				charsRead: 0,
+				chunksRead: 0,
+				batchesSent: 0,
+				unackedChars: 0,
+				paused: false,
+				pauseCount: 0
+			}
+		});
+
 		// Setup event handlers
 		ptyProcess.onData((data) => {
-			safeSend({
-				type: 'data',
-				id,
-				data
-			});
+			bufferOutput(id, data);
 		});
 
 		ptyProcess.onExit(({ exitCode, signal }) => {
+			// Output must arrive before the exit
+			flushOutput(id);
+			outputs.delete(id);
+
 			safeSend({
 				type: 'exit',
 				id,
@@ -214,24 +457,113 @@ function handleSpawn(message) {
 		// Send success response
 		safeSend({
 			type: 'spawned',
+			requestId,
 			id,
 			pid: ptyProcess.pid
 		});
 	} catch (error) {
-		safeSend({
-			type: 'error',
-			id,
-			error: {
-				message: error.message,
-				stack: error.stack,
-				code: 'PTY_SPAWN_FAILED'
-			}
-		});
+		sendError(requestId, id, error, 'PTY_SPAWN_FAILED');
 
 		console.error(`[PTY Host] Failed to spawn process ${id}:`, error);
 	}
 }
 
+/**
+ * Queue PTY output for the next batch
+ */
+function bufferOutput(id, data) {
+	const output = outputs.get(id);
+	if (!output) {
+		return;
+	}
+
+	output.chunks.push(data);
+	output.bufferedChars += data.length;
+	output.stats.charsRead += data.length;
+	output.stats.chunksRead++;
+
+	if (output.bufferedChars >= OUTPUT_BATCH_MAX) {
+		flushOutput(id);
+	} else if (!output.timer) {
+		output.timer = setTimeout(() => flushOutput(id), OUTPUT_BATCH_INTERVAL);
+	}
+}
+
+/**
+ * Send the queued output of a PTY as one data message, pausing the PTY when
+ * the plugin falls too far behind
+ */
+function flushOutput(id) {
+	const output = outputs.get(id);
+	if (!output) {
+		return;
+	}
+
+	if (output.timer) {
+		clearTimeout(output.timer);
+		output.timer = null;
+	}
+	if (output.chunks.length === 0) {
+		return;
+	}
+
+	const data = output.chunks.join('');
+	output.chunks = [];
+	output.bufferedChars = 0;
+
+	safeSend({
+		type: 'data',
+		id,
+		data
+	});
+
+	output.stats.batchesSent++;
+	output.stats.unackedChars += data.length;
+	if (!output.stats.paused && output.stats.unackedChars > HIGH_WATERMARK) {
+		output.ptyProcess.pause();
+		output.stats.paused = true;
+		output.stats.pauseCount++;
+	}
+}
+
+/**
+ * Handle ack from parent: xterm has displayed this much output
+ */
+function handleAck(message) {
+	const { id, charCount } = message;
+	const output = outputs.get(id);
+	if (!output) {
+		return;
+	}
+
+	output.stats.unackedChars = Math.max(output.stats.unackedChars - charCount, 0);
+	if (output.stats.paused && output.stats.unackedChars < LOW_WATERMARK) {
+		output.ptyProcess.resume();
+		output.stats.paused = false;
+	}
+}
+
+/**
+ * Handle stats request from parent
+ */
+function handleStats(message) {
+	const { requestId, id } = message;
+	const output = outputs.get(id);
+
+	if (!output) {
+		const error = new Error(`PTY process ${id} not found`);
+		sendError(requestId, id, error, 'PTY_NOT_FOUND');
+		return;
+	}
+
+	safeSend({
+		type: 'stats',
+		requestId,
+		id,
+		stats: { ...output.stats }
+	});
+}
+
 /**
  * Handle write request from parent
  */
@@ -239,23 +571,9 @@ function handleWrite(message) {
 	const { id, data } = message;
 
 	try {
-		const ptyProcess = ptyProcesses.get(id);
-
-		if (!ptyProcess) {
-			throw new Error(`PTY process ${id} not found`);
-		}
-
-		ptyProcess.write(data);
+		getPTYProcess(id).write(data);
 	} catch (error) {
-		safeSend({
-			type: 'error',
-			id,
-			error: {
-				message: error.message,
-				stack: error.stack,
-				code: 'PTY_WRITE_FAILED'
-			}
-		});
+		sendError(undefined, id, error, 'PTY_WRITE_FAILED');
 
 		console.error(`[PTY Host] Failed to write to process ${id}:`, error);
 	}
@@ -265,34 +583,21 @@ function handleWrite(message) {
  * Handle resize request from parent
  */
 function handleResize(message) {
-	const { id, cols, rows } = message;
+	const { requestId, id, cols, rows } = message;
 
 	try {
-		const ptyProcess = ptyProcesses.get(id);
-
-		if (!ptyProcess) {
-			throw new Error(`PTY process ${id} not found`);
-		}
-
-		ptyProcess.resize(cols, rows);
+		getPTYProcess(id).resize(cols, rows);
 
 		// Send acknowledgment
 		safeSend({
 			type: 'resized',
+			requestId,
 			id,
 			cols,
 			rows
 		});
 	} catch (error) {
-		safeSend({
-			type: 'error',
-			id,
-			error: {
-				message: error.message,
-				stack: error.stack,
-				code: 'PTY_RESIZE_FAILED'
-			}
-		});
+		sendError(requestId, id, error, 'PTY_RESIZE_FAILED');
 
 		console.error(`[PTY Host] Failed to resize process ${id}:`, error);
 	}
@@ -302,13 +607,16 @@ function handleResize(message) {
  * Handle kill request from parent
  */
 function handleKill(message) {
-	const { id, signal } = message;
+	const { requestId, id, signal } = message;
 
 	try {
-		const ptyProcess = ptyProcesses.get(id);
+		const ptyProcess = getPTYProcess(id);
 
-		if (!ptyProcess) {
-			throw new Error(`PTY process ${id} not found`);
+		// A paused PTY may hold back its exit; nobody will ack its output now
+		const output = outputs.get(id);
+		if (output && output.stats.paused) {
+			ptyProcess.resume();
+			output.stats.paused = false;
 		}
 
 		ptyProcess.kill(signal);
@@ -317,27 +625,152 @@ function handleKill(message) {
 		// Send acknowledgment
 		safeSend({
 			type: 'killed',
+			requestId,
 			id
 		});
 
 		console.error(`[PTY Host] Killed process ${id}`);
 	} catch (error) {
+		sendError(requestId, id, error, 'PTY_KILL_FAILED');
+
+		console.error(`[PTY Host] Failed to kill process ${id}:`, error);
+	}
+}
+
+/**
+ * Handle exec request from parent: run a command to completion and answer
+ * with its output, exit code and duration
+ */
+function handleExec(message) {
+	const { requestId, command, args = [], cwd, env, timeout, stdin, pty: usePty } = message;
+	const startTime = Date.now();
+	const streams = { stdout: '', stderr: '' };
+	let truncated = false;
+	let timedOut = false;
+	let timeoutTimer = null;
+	let killTimer = null;
+	let finished = false;
+
+	const append = (stream, data) => {
+		const room = EXEC_OUTPUT_LIMIT - streams[stream].length;
+		if (data.length > room) {
+			truncated = true;
+			data = data.slice(0, Math.max(room, 0));
+		}
+		streams[stream] += data;
+	};
+
+	const finish = (exitCode, signal) => {
+		if (finished) {
+			return;
+		}
+		finished = true;
+		clearTimeout(timeoutTimer);
+		clearTimeout(killTimer);
+		executions.delete(requestId);
+
 		safeSend({
-			type: 'error',
-			id,
-			error: {
-				message: error.message,
-				stack: error.stack,
-				code: 'PTY_KILL_FAILED'
+			type: 'exec-result',
+			requestId,
+			result: {
+				stdout: streams.stdout,
+				stderr: streams.stderr,
+				exitCode: signal ? null : exitCode,
+				signal: signal || null,
+				durationMs: Date.now() - startTime,
+				timedOut,
+				truncated
 			}
 		});
+	};
 
-		console.error(`[PTY Host] Failed to kill process ${id}:`, error);
+	const fail = (error) => {
+		if (finished) {
+			return;
+		}
+		finished = true;
+		clearTimeout(timeoutTimer);
+		clearTimeout(killTimer);
+		executions.delete(requestId);
+		sendError(requestId, undefined, error, 'EXEC_FAILED');
+		console.error(`[PTY Host] Failed to run ${command}:`, error);
+	};
+
+	let kill;
+	try {
+		if (usePty) {
+			if (!pty) {
+				throw new Error('PTY module not initialized');
+			}
+
+			const ptyProcess = pty.spawn(resolveShellPath(command), args, {
+				name: 'xterm-256color',
+				cols: 120,
+				rows: 30,
+				cwd,
+				env: { ...process.env, ...env },
+				useConpty: process.platform === 'win32',
+			});
+			ptyProcess.onData((data) => append('stdout', data));
+			ptyProcess.onExit(({ exitCode, signal }) => finish(exitCode, signalName(signal)));
+			// Type the input, then end it as a user would from the keyboard
+			ptyProcess.write((stdin || '') + endOfInput(stdin || ''));
+			// Signals other than the default are not supported on Windows
+			kill = (signal) => ptyProcess.kill(process.platform === 'win32' ? undefined : signal);
+		} else {
+			// On POSIX the command leads its own process group, so a timeout
+			// also ends the processes it started
+			const isWindows = process.platform === 'win32';
+			const { spawn } = require('child_process');
+			const child = spawn(command, args, {
+				cwd,
+				env: { ...process.env, ...env },
+				detached: !isWindows,
+				windowsHide: true,
+			});
+			child.stdout.setEncoding('utf8');
+			child.stderr.setEncoding('utf8');
+			child.stdout.on('data', (data) => append('stdout', data));
+			child.stderr.on('data', (data) => append('stderr', data));
+			child.on('error', fail);
+			// 'close' waits for the output streams to end
+			child.on('close', (exitCode, signal) => finish(exitCode, signal));
+			// Ignore a command exiting before it read its input
+			child.stdin.on('error', () => {});
+			child.stdin.end(stdin || '');
+			kill = (signal) => killProcessGroup(child, signal);
+		}
+	} catch (error) {
+		fail(error);
+		return;
+	}
+
+	executions.set(requestId, kill);
+
+	if (timeout) {
+		timeoutTimer = setTimeout(() => {
+			timedOut = true;
+			kill('SIGTERM');
+			killTimer = setTimeout(() => kill('SIGKILL'), EXEC_KILL_GRACE);
+		}, timeout);
+	}
+}
+
+/**
+ * Name of a signal number reported by node-pty, or null for none
+ */
+function signalName(signal) {
+	if (!signal) {
+		return null;
 	}
+	const entry = Object.entries(require('os').constants.signals).find(([, value]) => value === signal);
+	return entry ? entry[0] : String(signal);
 }
 
 /**
  * Main message handler
+ *
+ * @param {PluginMessage} message
  */
 function handleMessage(message) {
 	if (!message || !message.type) {
@@ -358,8 +791,18 @@ function handleMessage(message) {
 		case 'kill':
 			handleKill(message);
 			break;
+		case 'ack':
+			handleAck(message);
+			break;
+		case 'stats':
+			handleStats(message);
+			break;
+		case 'exec':
+			handleExec(message);
+			break;
 		default:
 			console.error('[PTY Host] Unknown message type:', message.type);
+			sendError(message.requestId, message.id, new Error(`Unknown message type: ${message.type}`), 'INVALID_MESSAGE');
 	}
 }
 
@@ -381,6 +824,17 @@ function handleShutdown(reason) {
 	}
 
 	ptyProcesses.clear();
+	outputs.clear();
+
+	// Kill commands running through exec
+	for (const kill of executions.values()) {
+		try {
+			kill('SIGTERM');
+		} catch (error) {
+			debugLog(`[PTY Host] Failed to kill command: ${error}`);
+		}
+	}
+	executions.clear();
 
 	// Only exit if we have active PTYs or this is an intentional shutdown
 	// Don't exit on early disconnect during initialization
@@ -2,6 +2,22 @@ import { EventEmitter } from 'events';
 import { Notice } from 'obsidian';
 import * as path from 'path';
 import { ChildProcess, spawn } from 'child_process';
+import {
+	HostErrorCode,
+	HostMessage,
+	HostReply,
+	KillRequest,
+	OutputStats,
+	PluginMessage,
+	PROTOCOL_VERSION,
+	ExecRequest,
+	ExecResult,
+	PTYBackend,
+	ReplyTypes,
+	ResizeRequest,
+	SpawnRequest,
+	StatsRequest,
+} from './pty-protocol';
 
 export interface PTYOptions {
 	shell: string;
@@ -12,22 +28,70 @@ export interface PTYOptions {
 	rows?: number;
 }
 
+export interface ExecOptions {
+	command: string;
+	args?: string[];
+	cwd?: string;
+	env?: { [key: string]: string };
+	// Milliseconds before the command is killed
+	timeout?: number;
+	stdin?: string;
+	// Run in a pseudo terminal; output is then one transcript in stdout
+	pty?: boolean;
+}
+
+/**
+ * Returns environment variables added to every spawned process; called at spawn time
+ */
+export type EnvironmentProvider = () => { [key: string]: string };
+
 export interface PTYProcess {
 	pid: number;
 	onData: (callback: (data: string) => void) => void;
 	onExit: (callback: (code: number, signal?: number) => void) => void;
+	// Called instead of onExit when the PTY host exits and takes the process with it
+	onDisconnect: (callback: () => void) => void;
 	write: (data: string) => void;
-	resize: (cols: number, rows: number) => void;
-	kill: (signal?: string) => void;
+	// Resolve once the host has applied them
+	resize: (cols: number, rows: number) => Promise<void>;
+	kill: (signal?: string) => Promise<void>;
+	// Report output passed to onData as displayed, so the host keeps sending
+	acknowledge: (charCount: number) => void;
+	getStats: () => Promise<OutputStats>;
 }
 
 /**
- * IPC Message types for PTY host communication
+ * Error reported by the PTY host, or raised when it does not answer
  */
-interface IPCMessage {
-	type: string;
-	id?: number;
-	[key: string]: any;
+export class PTYError extends Error {
+	readonly code: HostErrorCode | 'TIMEOUT' | 'HOST_EXITED' | 'HOST_NOT_RUNNING' | 'PROTOCOL_MISMATCH';
+
+	constructor(message: string, code: PTYError['code']) {
+		super(message);
+		this.name = 'PTYError';
+		this.code = code;
+	}
+}
+
+// How long the host may take to answer a request
+const REQUEST_TIMEOUT = 10000;
+
+// Acks are sent in steps of this many characters; must stay below the
+// host's low watermark so a caught-up terminal always resumes its PTY
+const ACK_BATCH_SIZE = 5000;
+
+// A request as passed to request(), which assigns the requestId
+type RequestMessage =
+	| Omit<SpawnRequest, 'requestId'>
+	| Omit<ResizeRequest, 'requestId'>
+	| Omit<KillRequest, 'requestId'>
+	| Omit<StatsRequest, 'requestId'>
+	| Omit<ExecRequest, 'requestId'>;
+
+interface PendingRequest {
+	resolve: (reply: HostReply) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout> | null;
 }
 
 /**
@@ -38,6 +102,15 @@ interface IPCMessage {
  * Architecture:
  * Plugin (Renderer) <-> IPC <-> PTY Host (Node.js) <-> node-pty <-> Shell Process
  *
+ * Messages are defined in pty-protocol.ts. Spawn, resize and kill wait for the
+ * host's answer and reject with a PTYError when it fails or times out.
+ *
+ * The plugin owns one PTYManager and every terminal session shares its host,
+ * addressing its own process by id. Consumers acquire() it while they need
+ * processes and release() it when done; the host stops when the last one
+ * releases it and starts again on the next spawn. Nothing here needs an
+ * xterm, so features without a terminal can spawn through it too.
+ *
  * Responsibilities:
  * - Manage PTY host process lifecycle (start, stop, restart)
  * - Spawn shell processes via IPC
@@ -45,6 +118,14 @@ interface IPCMessage {
  * - Handle resize events
  * - Manage process lifecycle
  * - Auto-restart on crash
+ *
+ * Events:
+ * - host-ready (backend, fallbackReason): the host started and is accepting requests
+ * - host-exit (code, signal): the host exited; its processes are disconnected
+ * - host-error (error): the host process could not be started
+ * - spawn (id, pid): a process started
+ * - exit (id, code, signal): a process exited
+ * - error (id, error): a process failed outside of a request, e.g. a write
  */
 export class PTYManager extends EventEmitter {
 	private hostProcess: ChildProcess | null = null;
@@ -55,8 +136,21 @@ export class PTYManager extends EventEmitter {
 	private activePTYs: Map<number, {
 		dataCallbacks: Array<(data: string) => void>;
 		exitCallbacks: Array<(code: number, signal?: number) => void>;
+		disconnectCallbacks: Array<() => void>;
 		pid?: number;
+		// Displayed characters not acked to the host yet
+		unsentAck: number;
 	}> = new Map();
+	private environmentProvider: EnvironmentProvider | null = null;
+	private nextRequestId: number = 1;
+	private pendingRequests: Map<number, PendingRequest> = new Map();
+	// Set while the host is stopped on purpose, so it is not restarted
+	private stoppingHost: boolean = false;
+	// Consumers currently using the host
+	private refCount: number = 0;
+	// Reported by the host when it is ready
+	private backend: PTYBackend | null = null;
+	private fallbackReason: string | null = null;
 	private restartAttempts: number = 0;
 	private readonly MAX_RESTART_ATTEMPTS = 3;
 	private readonly RESTART_DELAY = 1000; // 1 second
@@ -70,6 +164,33 @@ export class PTYManager extends EventEmitter {
 		console.log('[PTYManager] Initialized with plugin directory:', pluginDir);
 	}
 
+	/**
+	 * Register a consumer of the host
+	 */
+	acquire(): void {
+		this.refCount++;
+	}
+
+	/**
+	 * Unregister a consumer; the host stops once nobody uses it
+	 */
+	release(): void {
+		if (this.refCount > 0) {
+			this.refCount--;
+		}
+		if (this.refCount === 0) {
+			void this.stopHost();
+		}
+	}
+
+	/**
+	 * Set the variables added to the environment of spawned processes, between
+	 * Obsidian's environment and the variables passed to spawn()
+	 */
+	setEnvironmentProvider(provider: EnvironmentProvider | null): void {
+		this.environmentProvider = provider;
+	}
+
 	/**
 	 * Start the PTY host process
 	 * @returns Promise that resolves when host is ready
@@ -148,12 +269,32 @@ export class PTYManager extends EventEmitter {
 				});
 
 				// Handle host ready message
-				const readyHandler = (message: IPCMessage) => {
+				const hostProcess = this.hostProcess;
+				const readyHandler = (message: HostMessage) => {
 					if (message.type === 'ready') {
-						this.hostReady = true;
-						console.log('[PTYManager] PTY host ready');
 						// Remove this listener to prevent memory leak
-						this.hostProcess!.off('message', readyHandler);
+						hostProcess.off('message', readyHandler);
+
+						// A pty-host.js left over from another plugin version speaks a different protocol
+						if (message.protocolVersion !== PROTOCOL_VERSION) {
+							reject(new PTYError(
+								`PTY host protocol version ${message.protocolVersion} does not match the plugin's version ${PROTOCOL_VERSION}. Reinstall the plugin.`,
+								'PROTOCOL_MISMATCH'
+							));
+							this.stoppingHost = true;
+							hostProcess.kill();
+							return;
+						}
+
+						this.hostReady = true;
+						this.backend = message.backend;
+						this.fallbackReason = message.fallbackReason ?? null;
+						if (message.backend === 'pipe') {
+							console.warn('[PTYManager] PTY host ready without node-pty, using pipes:', message.fallbackReason);
+						} else {
+							console.log('[PTYManager] PTY host ready');
+						}
+						this.emit('host-ready', message.backend, this.fallbackReason);
 						resolve();
 					}
 				};
@@ -165,16 +306,31 @@ export class PTYManager extends EventEmitter {
 
 				// Handle host exit
 				this.hostProcess.on('exit', (code, signal) => {
+					// stopHost() has let go of this host already; a new one may be running
+					if (this.hostProcess !== hostProcess) {
+						console.log('[PTYManager] Stopped PTY host exited', { code, signal });
+						return;
+					}
+
 					console.error('[PTYManager] PTY host exited', { code, signal });
 					this.hostReady = false;
 					this.hostProcess = null;
 					this.hostInitPromise = null;
+					this.rejectPendingRequests(new PTYError('PTY host exited', 'HOST_EXITED'));
+
+					// The host's shells are gone; a restarted host won't know their ids
+					this.disconnectPTYs();
 
 					// Emit event for all active PTYs
 					this.emit('host-exit', code, signal);
 
+					const intentional = this.stoppingHost;
+					this.stoppingHost = false;
+
 					// Attempt restart if not intentional
-					if (code !== 0 && this.restartAttempts < this.MAX_RESTART_ATTEMPTS) {
+					if (intentional) {
+						return;
+					} else if (code !== 0 && this.restartAttempts < this.MAX_RESTART_ATTEMPTS) {
 						this.attemptHostRestart();
 					} else if (this.restartAttempts >= this.MAX_RESTART_ATTEMPTS) {
 						new Notice(
@@ -205,7 +361,7 @@ export class PTYManager extends EventEmitter {
 				// Timeout if host doesn't respond
 				setTimeout(() => {
 					if (!this.hostReady) {
-						reject(new Error('PTY host initialization timeout'));
+						reject(new PTYError('PTY host initialization timeout', 'TIMEOUT'));
 					}
 				}, 5000);
 
@@ -233,98 +389,156 @@ export class PTYManager extends EventEmitter {
 			this.restartAttempts = 0; // Reset counter on successful restart
 			console.log('[PTYManager] PTY host restarted successfully');
 
-			new Notice('Code Unblock Terminal: Reconnected successfully', 3000);
+			new Notice('Code Unblock Terminal: PTY host restarted. Restart disconnected sessions to continue.', 5000);
 		} catch (error) {
 			console.error('[PTYManager] Failed to restart PTY host:', error);
 		}
 	}
 
+	/**
+	 * Notify and forget every PTY of the exited host
+	 */
+	private disconnectPTYs(): void {
+		const ptys = Array.from(this.activePTYs.values());
+		this.activePTYs.clear();
+		ptys.forEach(pty => pty.disconnectCallbacks.forEach(callback => callback()));
+	}
+
 	/**
 	 * Handle messages from PTY host process
 	 */
-	private handleHostMessage(message: IPCMessage): void {
+	private handleHostMessage(message: HostMessage): void {
 		if (!message || !message.type) {
 			console.error('[PTYManager] Received invalid message from host:', message);
 			return;
 		}
 
-		const { type, id } = message;
-
-		switch (type) {
+		switch (message.type) {
 			case 'ready':
 				// Already handled in startHost()
 				break;
 
 			case 'spawned':
-				if (typeof id === 'number') {
-					const pty = this.activePTYs.get(id);
-					if (pty) {
-						pty.pid = message.pid;
-						this.emit('spawn', id, message.pid);
-					}
-				}
-				break;
-
-			case 'data':
-				if (typeof id === 'number') {
-					const pty = this.activePTYs.get(id);
-					if (pty) {
-						pty.dataCallbacks.forEach(callback => callback(message.data));
-					}
-				}
+			case 'resized':
+			case 'killed':
+			case 'stats':
+			case 'exec-result':
+				this.settleRequest(message.requestId, message, null);
 				break;
 
-			case 'exit':
-				if (typeof id === 'number') {
-					const pty = this.activePTYs.get(id);
-					if (pty) {
-						pty.exitCallbacks.forEach(callback =>
-							callback(message.exitCode, message.signal)
-						);
-						this.activePTYs.delete(id);
-						this.emit('exit', id, message.exitCode, message.signal);
-					}
+			case 'data': {
+				const pty = this.activePTYs.get(message.id);
+				if (pty) {
+					pty.dataCallbacks.forEach(callback => callback(message.data));
 				}
 				break;
+			}
 
-			case 'error':
-				console.error('[PTYManager] PTY host error:', message.error);
-				if (typeof id === 'number') {
-					this.emit('error', id, message.error);
+			case 'exit': {
+				const pty = this.activePTYs.get(message.id);
+				if (pty) {
+					pty.exitCallbacks.forEach(callback =>
+						callback(message.exitCode, message.signal)
+					);
+					this.activePTYs.delete(message.id);
+					this.emit('exit', message.id, message.exitCode, message.signal);
 				}
 				break;
+			}
 
-			case 'resized':
-				if (typeof id === 'number') {
-					this.emit('resize', id, message.cols, message.rows);
+			case 'error': {
+				const error = new PTYError(message.error.message, message.error.code);
+				if (message.requestId !== undefined && this.pendingRequests.has(message.requestId)) {
+					this.settleRequest(message.requestId, null, error);
+					break;
 				}
-				break;
 
-			case 'killed':
-				if (typeof id === 'number') {
-					this.activePTYs.delete(id);
+				console.error('[PTYManager] PTY host error:', message.error);
+				if (message.id !== undefined) {
+					this.emit('error', message.id, error);
 				}
 				break;
+			}
 
 			default:
-				console.warn('[PTYManager] Unknown message type from host:', type);
+				console.warn('[PTYManager] Unknown message type from host:', (message as { type: string }).type);
 		}
 	}
 
 	/**
 	 * Send message to PTY host process
 	 */
-	private sendToHost(message: IPCMessage): void {
+	private sendToHost(message: PluginMessage): void {
 		if (!this.hostProcess || !this.hostReady) {
-			throw new Error('PTY host not ready. Cannot send message.');
+			throw new PTYError('PTY host not ready. Cannot send message.', 'HOST_NOT_RUNNING');
 		}
 
 		this.hostProcess.send(message);
 	}
 
+	/**
+	 * Send a request and wait for the host's answer
+	 * @param timeout Milliseconds to wait for the answer, or null to wait as long as the host runs
+	 * @throws PTYError when the host reports an error, exits or does not answer in time
+	 */
+	private request<M extends RequestMessage>(message: M, timeout: number | null = REQUEST_TIMEOUT): Promise<ReplyTypes[M['type']]> {
+		const requestId = this.nextRequestId++;
+
+		return new Promise<ReplyTypes[M['type']]>((resolve, reject) => {
+			const timer = timeout === null ? null : setTimeout(() => {
+				this.settleRequest(requestId, null, new PTYError(
+					`PTY host did not answer the ${message.type} request in time`,
+					'TIMEOUT'
+				));
+			}, timeout);
+
+			this.pendingRequests.set(requestId, {
+				resolve: resolve as (reply: HostReply) => void,
+				reject,
+				timer,
+			});
+
+			try {
+				this.sendToHost({ ...message, requestId } as PluginMessage);
+			} catch (error) {
+				this.settleRequest(requestId, null, error as Error);
+			}
+		});
+	}
+
+	/**
+	 * Resolve or reject a pending request
+	 */
+	private settleRequest(requestId: number, reply: HostReply | null, error: Error | null): void {
+		const pending = this.pendingRequests.get(requestId);
+		if (!pending) {
+			return;
+		}
+
+		if (pending.timer) {
+			clearTimeout(pending.timer);
+		}
+		this.pendingRequests.delete(requestId);
+		if (error) {
+			pending.reject(error);
+		} else if (reply) {
+			pending.resolve(reply);
+		}
+	}
+
+	/**
+	 * Fail every request still waiting for an answer
+	 */
+	private rejectPendingRequests(error: Error): void {
+		for (const requestId of Array.from(this.pendingRequests.keys())) {
+			this.settleRequest(requestId, null, error);
+		}
+	}
+
 	/**
 	 * Spawn a new shell process with PTY
 	 * Automatically starts host process if not running
+	 * @throws PTYError when the host cannot start the process
 	 */
 	async spawn(options: PTYOptions): Promise<PTYProcess> {
 		// Ensure host is started
@@ -339,24 +553,33 @@ export class PTYManager extends EventEmitter {
 		const ptyData = {
 			dataCallbacks: [] as Array<(data: string) => void>,
 			exitCallbacks: [] as Array<(code: number, signal?: number) => void>,
+			disconnectCallbacks: [] as Array<() => void>,
+			unsentAck: 0,
 			pid: undefined as number | undefined,
 		};
 
 		this.activePTYs.set(id, ptyData);
 
-		// Send spawn request to host
-		this.sendToHost({
-			type: 'spawn',
-			id,
-			shell,
-			args,
-			options: {
-				cwd: cwd || process.cwd(),
-				env: env ? { ...process.env, ...env } : process.env,
-				cols,
-				rows,
-			},
-		});
+		// Ask the host to spawn and wait until the process is running
+		try {
+			const reply = await this.request({
+				type: 'spawn',
+				id,
+				shell,
+				args,
+				options: {
+					cwd: cwd || process.cwd(),
+					env: { ...process.env, ...this.environmentProvider?.(), ...env },
+					cols,
+					rows,
+				},
+			});
+			ptyData.pid = reply.pid;
+			this.emit('spawn', id, reply.pid);
+		} catch (error) {
+			this.activePTYs.delete(id);
+			throw error;
+		}
 
 		// Create PTYProcess interface
 		const processInterface: PTYProcess = {
@@ -372,7 +595,15 @@ export class PTYManager extends EventEmitter {
 				ptyData.exitCallbacks.push(callback);
 			},
 
+			onDisconnect: (callback: () => void) => {
+				ptyData.disconnectCallbacks.push(callback);
+			},
+
 			write: (data: string) => {
+				// Drop input for a process that has exited or lost its host
+				if (!this.activePTYs.has(id)) {
+					return;
+				}
 				this.sendToHost({
 					type: 'write',
 					id,
@@ -380,8 +611,8 @@ export class PTYManager extends EventEmitter {
 				});
 			},
 
-			resize: (cols: number, rows: number) => {
-				this.sendToHost({
+			resize: async (cols: number, rows: number) => {
+				await this.request({
 					type: 'resize',
 					id,
 					cols,
@@ -389,18 +620,70 @@ export class PTYManager extends EventEmitter {
 				});
 			},
 
-			kill: (signal?: string) => {
-				this.sendToHost({
+			kill: async (signal?: string) => {
+				await this.request({
 					type: 'kill',
 					id,
 					signal,
 				});
 			},
+
+			acknowledge: (charCount: number) => {
+				if (!this.activePTYs.has(id)) {
+					return;
+				}
+				ptyData.unsentAck += charCount;
+				if (ptyData.unsentAck >= ACK_BATCH_SIZE) {
+					this.sendToHost({
+						type: 'ack',
+						id,
+						charCount: ptyData.unsentAck,
+					});
+					ptyData.unsentAck = 0;
+				}
+			},
+
+			getStats: async () => {
+				const reply = await this.request({
+					type: 'stats',
+					id,
+				});
+				return reply.stats;
+			},
 		};
 
 		return processInterface;
 	}
 
+	/**
+	 * Run a command to completion without a terminal, e.g. to capture its
+	 * output; it gets the same environment as spawned shells
+	 * @throws PTYError when the command cannot be started
+	 */
+	async exec(options: ExecOptions): Promise<ExecResult> {
+		const { command, args = [], cwd, env, timeout, stdin, pty = false } = options;
+
+		// Keep the host up for the command even when no terminal is open
+		this.acquire();
+		try {
+			await this.startHost();
+
+			const reply = await this.request({
+				type: 'exec',
+				command,
+				args,
+				cwd: cwd || process.cwd(),
+				env: { ...process.env, ...this.environmentProvider?.(), ...env },
+				timeout,
+				stdin,
+				pty,
+			}, timeout ? timeout + REQUEST_TIMEOUT : null);
+			return reply.result;
+		} finally {
+			this.release();
+		}
+	}
+
 	/**
 	 * Stop the PTY host process and all active PTYs
 	 */
@@ -412,10 +695,27 @@ export class PTYManager extends EventEmitter {
 			this.hostProcess = null;
 			this.hostReady = false;
 			this.hostInitPromise = null;
-			this.activePTYs.clear();
+			this.rejectPendingRequests(new PTYError('PTY host stopped', 'HOST_EXITED'));
+
+			// Its exit is ignored once it is let go, so tell sessions here
+			this.disconnectPTYs();
 		}
 	}
 
+	/**
+	 * How the host runs processes, or null before it was first ready
+	 */
+	getBackend(): PTYBackend | null {
+		return this.backend;
+	}
+
+	/**
+	 * Why the host fell back to the pipe backend
+	 */
+	getFallbackReason(): string | null {
+		return this.fallbackReason;
+	}
+
 	/**
 	 * Check if PTY host is running
 	 */
@@ -0,0 +1,239 @@
+/*
+ * Messages exchanged between PTYManager (plugin) and pty-host.js over IPC.
+ *
+ * Requests that expect an answer carry a requestId; the host answers with a
+ * message of the matching reply type, or an error, carrying the same
+ * requestId. Writes are not acknowledged so typing stays fast; a failed write
+ * is reported as an error for the PTY.
+ *
+ * Output is flow controlled: the host batches PTY output into data messages
+ * and counts the characters it has sent. The plugin acks characters once
+ * xterm has parsed them; the host pauses the PTY while too many are unacked
+ * and resumes it once the plugin has caught up.
+ *
+ * pty-host.js is plain JavaScript run by the system's Node.js and refers to
+ * these types in JSDoc only. Change PROTOCOL_VERSION here and in pty-host.js
+ * together whenever a message changes.
+ */
+
+/**
+ * Version the plugin and the host must agree on; announced by the host in `ready`
+ */
+export const PROTOCOL_VERSION = 5;
+
+export interface SpawnOptions {
+	cwd: string;
+	env: { [key: string]: string | undefined };
+	cols: number;
+	rows: number;
+}
+
+// Plugin -> host
+
+export interface SpawnRequest {
+	type: 'spawn';
+	requestId: number;
+	id: number;
+	shell: string;
+	args: string[];
+	options: SpawnOptions;
+}
+
+export interface WriteRequest {
+	type: 'write';
+	id: number;
+	data: string;
+}
+
+export interface ResizeRequest {
+	type: 'resize';
+	requestId: number;
+	id: number;
+	cols: number;
+	rows: number;
+}
+
+export interface KillRequest {
+	type: 'kill';
+	requestId: number;
+	id: number;
+	signal?: string;
+}
+
+export interface AckMessage {
+	type: 'ack';
+	id: number;
+	// Characters of data messages xterm has finished parsing
+	charCount: number;
+}
+
+export interface StatsRequest {
+	type: 'stats';
+	requestId: number;
+	id: number;
+}
+
+/**
+ * Run a command to completion without a terminal attached
+ */
+export interface ExecRequest {
+	type: 'exec';
+	requestId: number;
+	command: string;
+	args: string[];
+	cwd: string;
+	env: { [key: string]: string | undefined };
+	// Milliseconds before the command is killed; none when omitted
+	timeout?: number;
+	// Written to the command's input, which is then closed; typed into the
+	// terminal followed by end-of-input keys with pty
+	stdin?: string;
+	// Run in a pseudo terminal, for commands that behave differently without one
+	pty?: boolean;
+}
+
+export type PluginMessage =
+	| SpawnRequest
+	| WriteRequest
+	| ResizeRequest
+	| KillRequest
+	| AckMessage
+	| StatsRequest
+	| ExecRequest;
+
+// Host -> plugin
+
+/**
+ * How the host runs processes: node-pty, or plain pipes when node-pty could
+ * not be loaded (no terminal, line-based input, no resize)
+ */
+export type PTYBackend = 'node-pty' | 'pipe';
+
+export interface ReadyMessage {
+	type: 'ready';
+	protocolVersion: number;
+	backend: PTYBackend;
+	// Why node-pty could not be loaded, with the pipe backend
+	fallbackReason?: string;
+}
+
+export interface SpawnedReply {
+	type: 'spawned';
+	requestId: number;
+	id: number;
+	pid: number;
+}
+
+export interface ResizedReply {
+	type: 'resized';
+	requestId: number;
+	id: number;
+	cols: number;
+	rows: number;
+}
+
+export interface KilledReply {
+	type: 'killed';
+	requestId: number;
+	id: number;
+}
+
+/**
+ * Output counters of one PTY, for checking batching and flow control
+ */
+export interface OutputStats {
+	// Characters and chunks read from the PTY
+	charsRead: number;
+	chunksRead: number;
+	// Data messages sent; each batches one or more chunks
+	batchesSent: number;
+	// Characters sent but not acked yet
+	unackedChars: number;
+	// Whether reading from the PTY is paused, and how often it was
+	paused: boolean;
+	pauseCount: number;
+}
+
+export interface StatsReply {
+	type: 'stats';
+	requestId: number;
+	id: number;
+	stats: OutputStats;
+}
+
+/**
+ * Outcome of a command run with exec
+ */
+export interface ExecResult {
+	// With pty, stdout is the terminal transcript and stderr is empty
+	stdout: string;
+	stderr: string;
+	// Null when the command was ended by a signal
+	exitCode: number | null;
+	signal: string | null;
+	durationMs: number;
+	timedOut: boolean;
+	// Output beyond the host's limit was dropped
+	truncated: boolean;
+}
+
+export interface ExecReply {
+	type: 'exec-result';
+	requestId: number;
+	result: ExecResult;
+}
+
+export interface DataMessage {
+	type: 'data';
+	id: number;
+	data: string;
+}
+
+export interface ExitMessage {
+	type: 'exit';
+	id: number;
+	exitCode: number;
+	signal?: number;
+}
+
+/**
+ * Error codes sent by the host
+ */
+export type HostErrorCode =
+	| 'PTY_SPAWN_FAILED'
+	| 'PTY_NOT_FOUND'
+	| 'PTY_WRITE_FAILED'
+	| 'PTY_RESIZE_FAILED'
+	| 'PTY_KILL_FAILED'
+	| 'EXEC_FAILED'
+	| 'INVALID_MESSAGE'
+	| 'UNCAUGHT_EXCEPTION'
+	| 'UNHANDLED_REJECTION';
+
+export interface ErrorMessage {
+	type: 'error';
+	// Set when the error answers a request
+	requestId?: number;
+	// Set when the error concerns one PTY
+	id?: number;
+	error: {
+		message: string;
+		code: HostErrorCode;
+		stack?: string;
+	};
+}
+
+export type HostReply = SpawnedReply | ResizedReply | KilledReply | StatsReply | ExecReply;
+
+export type HostMessage = ReadyMessage | HostReply | DataMessage | ExitMessage | ErrorMessage;
+
+/**
+ * Request types that expect an answer, mapped to their reply
+ */
+export interface ReplyTypes {
+	spawn: SpawnedReply;
+	resize: ResizedReply;
+	kill: KilledReply;
+	stats: StatsReply;
+	exec: ExecReply;
+}
@@ -0,0 +1,286 @@
+import { getExecutableName, ShellProfile } from './shell-manager';
+import { writeTempFile } from '../utils/temp-files';
+
+/*
+ * Shell integration scripts make the shell report what it is doing with
+ * escape sequences the terminal hides:
+ * - OSC 133;A  prompt starts
+ * - OSC 133;B  prompt ends, command input starts
+ * - OSC 133;C  command starts executing, output follows
+ * - OSC 133;D;<exit code>  command finished
+ * - OSC 7;file://<host><path>  current directory
+ *
+ * Each script loads the user's own startup files first so prompts, aliases
+ * and PATH are unchanged.
+ */
+
+const BASH_SCRIPT = `# Code Unblock Terminal shell integration for bash
+if [ -n "$CODE_UNBLOCK_LOGIN" ]; then
+	[ -r /etc/profile ] && . /etc/profile
+	for __cu_file in ~/.bash_profile ~/.bash_login ~/.profile; do
+		if [ -r "$__cu_file" ]; then . "$__cu_file"; break; fi
+	done
+	unset __cu_file
+elif [ -r ~/.bashrc ]; then
+	. ~/.bashrc
+fi
+unset CODE_UNBLOCK_LOGIN
+
+__cu_ready=0
+__cu_in_command=0
+
+__cu_precmd() {
+	local exit_code=$?
+	__cu_ready=0
+	if [ "$__cu_in_command" = 1 ]; then
+		printf '\\e]133;D;%s\\a' "$exit_code"
+		__cu_in_command=0
+	fi
+	printf '\\e]7;file://%s%s\\a' "$HOSTNAME" "$PWD"
+	return $exit_code
+}
+
+__cu_prompt_ready() {
+	local exit_code=$?
+	# Prompt frameworks may rebuild PS1 on every prompt
+	case "$PS1" in
+		*'133;B'*) ;;
+		*) PS1="$PS1\\[\\e]133;B\\a\\]" ;;
+	esac
+	printf '\\e]133;A\\a'
+	__cu_ready=1
+	return $exit_code
+}
+
+__cu_preexec() {
+	local exit_code=$?
+	# The DEBUG trap also runs for PROMPT_COMMAND; only the first command
+	# after a prompt is the user's
+	if [ "$__cu_ready" = 1 ]; then
+		__cu_ready=0
+		__cu_in_command=1
+		printf '\\e]133;C\\a'
+	fi
+	# Chain to the DEBUG trap set before ours, with $? unchanged
+	if [ -n "$__cu_user_debug_trap" ]; then
+		__cu_return "$exit_code"
+		eval "$__cu_user_debug_trap"
+	fi
+}
+
+__cu_return() {
+	return "$1"
+}
+
+# PROMPT_COMMAND may be an array since bash 5.1
+if [[ "$(declare -p PROMPT_COMMAND 2>/dev/null)" == "declare -a"* ]]; then
+	PROMPT_COMMAND=(__cu_precmd "\${PROMPT_COMMAND[@]}" __cu_prompt_ready)
+else
+	PROMPT_COMMAND="__cu_precmd\${PROMPT_COMMAND:+;$PROMPT_COMMAND};__cu_prompt_ready"
+fi
+
+# Keep the user's DEBUG trap; trap -p prints it as: trap -- '<command>' DEBUG
+__cu_user_debug_trap=''
+__cu_capture_trap() {
+	__cu_user_debug_trap=$2
+}
+__cu_trap=$(trap -p DEBUG)
+if [ -n "$__cu_trap" ]; then
+	eval "__cu_capture_trap \${__cu_trap#trap }"
+fi
+unset __cu_trap
+unset -f __cu_capture_trap
+trap '__cu_preexec' DEBUG
+`;
+
+// zsh reads its startup files from $ZDOTDIR; these load the user's files
+// from their real location and add the hooks after .zshrc
+const ZSH_ENV = `# Code Unblock Terminal shell integration for zsh
+__cu_zdotdir="$ZDOTDIR"
+ZDOTDIR="\${CODE_UNBLOCK_USER_ZDOTDIR:-$HOME}"
+[[ -r "$ZDOTDIR/.zshenv" ]] && source "$ZDOTDIR/.zshenv"
+ZDOTDIR="$__cu_zdotdir"
+`;
+
+const ZSH_PROFILE = `# Code Unblock Terminal shell integration for zsh
+ZDOTDIR="\${CODE_UNBLOCK_USER_ZDOTDIR:-$HOME}"
+[[ -r "$ZDOTDIR/.zprofile" ]] && source "$ZDOTDIR/.zprofile"
+ZDOTDIR="$__cu_zdotdir"
+`;
+
+const ZSH_RC = `# Code Unblock Terminal shell integration for zsh
+ZDOTDIR="\${CODE_UNBLOCK_USER_ZDOTDIR:-$HOME}"
+unset __cu_zdotdir CODE_UNBLOCK_USER_ZDOTDIR
+[[ -r "$ZDOTDIR/.zshrc" ]] && source "$ZDOTDIR/.zshrc"
+
+__cu_in_command=0
+
+__cu_precmd() {
+	local exit_code=$?
+	if (( __cu_in_command )); then
+		printf '\\e]133;D;%s\\a' "$exit_code"
+		__cu_in_command=0
+	fi
+	printf '\\e]7;file://%s%s\\a' "$HOST" "$PWD"
+	printf '\\e]133;A\\a'
+	# Prompt frameworks may rebuild PS1 on every prompt
+	[[ "$PS1" == *'133;B'* ]] || PS1="$PS1%{"$'\\e]133;B\\a'"%}"
+}
+
+__cu_preexec() {
+	__cu_in_command=1
+	printf '\\e]133;C\\a'
+}
+
+autoload -Uz add-zsh-hook
+add-zsh-hook precmd __cu_precmd
+add-zsh-hook preexec __cu_preexec
+`;
+
+const FISH_SCRIPT = `# Code Unblock Terminal shell integration for fish
+set -g __cu_in_command 0
+
+function __cu_preexec --on-event fish_preexec
+	set -g __cu_in_command 1
+	printf '\\e]133;C\\a'
+end
+
+function __cu_postexec --on-event fish_postexec
+	set -g __cu_status $status
+end
+
+function __cu_prompt --on-event fish_prompt
+	if test "$__cu_in_command" = 1
+		printf '\\e]133;D;%s\\a' $__cu_status
+		set -g __cu_in_command 0
+	end
+	printf '\\e]7;file://%s%s\\a' $hostname "$PWD"
+	printf '\\e]133;A\\a'
+end
+`;
+
+const POWERSHELL_SCRIPT = `# Code Unblock Terminal shell integration for PowerShell
+$Global:__cuOriginalPrompt = $function:prompt
+$Global:__cuInCommand = $false
+
+function Global:prompt {
+	# Read the last command's status before anything else resets it
+	$cuSuccess = $?
+	$cuExitCode = $Global:LASTEXITCODE
+	$esc = [char]27
+	$bel = [char]7
+	$result = ''
+
+	if ($Global:__cuInCommand) {
+		$code = if ($cuSuccess) { 0 } elseif ($cuExitCode) { $cuExitCode } else { 1 }
+		$result += "$esc]133;D;$code$bel"
+		$Global:__cuInCommand = $false
+	}
+
+	$location = $ExecutionContext.SessionState.Path.CurrentLocation
+	if ($location.Provider.Name -eq 'FileSystem') {
+		$path = $location.ProviderPath -replace '\\\\', '/'
+		if (-not $path.StartsWith('/')) { $path = '/' + $path }
+		$result += "$esc]7;file://$([Environment]::MachineName)$path$bel"
+	}
+
+	$result += "$esc]133;A$bel"
+	$result += ($Global:__cuOriginalPrompt.Invoke() -join '')
+	$result += "$esc]133;B$bel"
+
+	$Global:LASTEXITCODE = $cuExitCode
+	$result
+}
+
+if (Get-Command PSConsoleHostReadLine -ErrorAction SilentlyContinue) {
+	$Global:__cuOriginalReadLine = $function:PSConsoleHostReadLine
+	function Global:PSConsoleHostReadLine {
+		$line = $Global:__cuOriginalReadLine.Invoke()
+		if ($line -and $line.Trim()) {
+			$Global:__cuInCommand = $true
+			[Console]::Write("$([char]27)]133;C$([char]7)")
+		}
+		$line
+	}
+}
+`;
+
+/**
+ * Add shell integration to a profile: extra arguments and environment that
+ * make the shell load the integration script for its kind
+ * Profiles of other programs, or with arguments that would conflict (such as
+ * running a single command), are returned unchanged.
+ */
+export function applyShellIntegration(profile: ShellProfile): ShellProfile {
+	const args = profile.args ?? [];
+	const env: { [key: string]: string } = { ...profile.env };
+	const name = getExecutableName(profile.shell);
+
+	try {
+		switch (name) {
+			case 'bash': {
+				if (args.some((arg) => arg === '-c' || arg === '--init-file' || arg === '--rcfile' || arg === '--norc')) {
+					return profile;
+				}
+				// Login shells ignore --init-file, so the script loads the login files itself
+				const login = args.some((arg) => arg === '-l' || arg === '--login');
+				const rest = args.filter((arg) => arg !== '-l' && arg !== '--login');
+				return {
+					...profile,
+					args: ['--init-file', writeScript('bash-integration.sh', BASH_SCRIPT), ...rest],
+					env: login ? { ...env, CODE_UNBLOCK_LOGIN: '1' } : profile.env,
+				};
+			}
+			case 'zsh': {
+				if (args.includes('-c') || args.includes('--no-rcs') || args.includes('-f')) {
+					return profile;
+				}
+				const zshenv = writeScript('zsh/.zshenv', ZSH_ENV);
+				writeScript('zsh/.zprofile', ZSH_PROFILE);
+				writeScript('zsh/.zshrc', ZSH_RC);
+				const userZdotdir = profile.env?.ZDOTDIR ?? process.env.ZDOTDIR;
+				if (userZdotdir) {
+					env.CODE_UNBLOCK_USER_ZDOTDIR = userZdotdir;
+				}
+				env.ZDOTDIR = require('path').dirname(zshenv);
+				return { ...profile, env };
+			}
+			case 'fish': {
+				if (args.includes('-c') || args.includes('--command')) {
+					return profile;
+				}
+				const script = writeScript('fish-integration.fish', FISH_SCRIPT);
+				return { ...profile, args: [...args, '--init-command', `source ${quotePosix(script)}`] };
+			}
+			case 'pwsh':
+			case 'powershell': {
+				if (args.some((arg) => /^-(c|command|f|file|encodedcommand)$/i.test(arg))) {
+					return profile;
+				}
+				const script = writeScript('powershell-integration.ps1', POWERSHELL_SCRIPT);
+				return {
+					...profile,
+					args: [...args, '-NoExit', '-Command', `. '${script.replace(/'/g, '\'\'')}'`],
+				};
+			}
+			default:
+				return profile;
+		}
+	} catch (error) {
+		console.warn('Shell integration unavailable:', error);
+		return profile;
+	}
+}
+
+/**
+ * Write an integration script to the plugin's private temp directory, which
+ * no other user can plant files in
+ * @returns Absolute path of the script
+ */
+function writeScript(relativePath: string, content: string): string {
+	return writeTempFile(`shell-integration/${relativePath}`, content);
+}
+
+function quotePosix(value: string): string {
+	return `'${value.replace(/'/g, '\'\\\'\'')}'`;
+}
@@ -1,14 +1,33 @@
-import { PTYManager, PTYProcess } from './pty-manager';
+import { PTYError, PTYManager, PTYProcess } from './pty-manager';
+import { OutputStats } from './pty-protocol';
 import { XtermManager } from './xterm-manager';
+import { applyShellIntegration } from './shell-integration';
+import { parseDotenv } from '../utils/dotenv';
 import { EventEmitter } from 'events';
 
 export interface ShellProfile {
+	// Set on profiles saved in the settings
+	id?: string;
 	name: string;
 	shell: string;
 	args?: string[];
 	env?: { [key: string]: string };
+	// Directory new terminals of this profile start in
+	cwd?: string;
+	// Lucide icon name and CSS colour shown on the profile's tabs
+	icon?: string;
+	color?: string;
+	// Commands typed once the shell has started, e.g. activating a virtualenv
+	initCommands?: string[];
+	// .env file, relative to the working directory, whose variables are added to env
+	envFile?: string;
 }
 
+// Startup commands are typed once the shell's startup output has been quiet this long
+const INIT_OUTPUT_QUIET_TIME = 300;
+// Longest wait for the shell to start before typing startup commands anyway
+const INIT_MAX_WAIT = 5000;
+
 /**
  * ShellManager orchestrates shell profile selection and manages the lifecycle
  * of shell sessions by coordinating between PTY and xterm.
@@ -18,31 +37,43 @@ export interface ShellProfile {
  * - Create shell sessions with proper configuration
  * - Wire PTY output to xterm and xterm input to PTY
  * - Handle shell lifecycle events
+ * - Inject shell integration scripts when enabled
+ * - Load the profile's .env file and type its startup commands
+ *
+ * Events:
+ * - start (pid): shell process started
+ * - data (data): raw output received from the shell
+ * - exit (code, signal): shell process exited
+ * - disconnect: the PTY host exited and took the shell with it
+ * - error (error): shell failed to start, resize or stop
  */
 export class ShellManager extends EventEmitter {
 	private ptyManager: PTYManager;
 	private xtermManager: XtermManager;
 	private ptyProcess: PTYProcess | null = null;
 	private currentProfile: ShellProfile | null = null;
+	private cwd: string | null = null;
 	private xtermDataDisposable: (() => void) | null = null;
 	private xtermResizeDisposable: (() => void) | null = null;
+	private shellIntegration: boolean;
 
-	constructor(xtermManager: XtermManager, pluginDir: string | null = null) {
+	/**
+	 * @param ptyManager The plugin's PTY manager; held until dispose()
+	 * @param shellIntegration Load shell integration scripts into supported shells
+	 */
+	constructor(xtermManager: XtermManager, ptyManager: PTYManager, shellIntegration = false) {
 		super();
-		this.ptyManager = new PTYManager();
-
-		// Initialize PTY manager with plugin directory
-		if (pluginDir) {
-			this.ptyManager.initialize(pluginDir);
-		} else {
-			console.warn('ShellManager: No plugin directory provided, PTY host may fail to start');
-		}
+		this.ptyManager = ptyManager;
+		this.ptyManager.acquire();
 
 		this.xtermManager = xtermManager;
+		this.shellIntegration = shellIntegration;
 	}
 
 	/**
 	 * Start a shell session with the specified profile
+	 * Resolves once the profile's startup commands have been typed, so text
+	 * sent afterwards runs after them.
 	 */
 	async start(profile: ShellProfile, cwd?: string): Promise<void> {
 		if (this.ptyProcess) {
@@ -51,24 +82,40 @@ export class ShellManager extends EventEmitter {
 		}
 
 		this.currentProfile = profile;
+		this.cwd = cwd ?? null;
 
 		// Get terminal dimensions
 		const { cols, rows } = this.xtermManager.getDimensions();
 
+		// The profile as spawned, with the integration script's arguments and
+		// environment; currentProfile stays the one the user chose
+		const launchProfile = this.shellIntegration ? applyShellIntegration(profile) : profile;
+
+		// Variables from the profile's .env file; the profile's own env wins
+		const env = profile.envFile
+			? { ...this.loadEnvFile(profile.envFile, cwd), ...launchProfile.env }
+			: launchProfile.env;
+
 		// Spawn the PTY process
 		try {
-			this.ptyProcess = await this.ptyManager.spawn({
-				shell: profile.shell,
-				args: profile.args,
+			const ptyProcess = await this.ptyManager.spawn({
+				shell: launchProfile.shell,
+				args: launchProfile.args,
 				cwd,
-				env: profile.env,
+				env,
 				cols,
 				rows,
 			});
 
-			// Wire PTY data output to xterm
-			this.ptyProcess.onData((data) => {
-				this.xtermManager.write(data);
+			this.ptyProcess = ptyProcess;
+
+			// Wire PTY data output to xterm; listeners such as command
+			// tracking see the raw output too. Output is acked once xterm has
+			// parsed it, so a flood of output pauses the shell instead of
+			// piling up in the renderer.
+			ptyProcess.onData((data) => {
+				this.xtermManager.write(data, () => ptyProcess.acknowledge(data.length));
+				this.emit('data', data);
 			});
 
 			// Wire PTY exit event
@@ -79,6 +126,13 @@ export class ShellManager extends EventEmitter {
 				this.disposeXtermListeners();
 			});
 
+			// Wire PTY host loss; the shell is gone but never reported an exit code
+			this.ptyProcess.onDisconnect(() => {
+				this.ptyProcess = null;
+				this.disposeXtermListeners();
+				this.emit('disconnect');
+			});
+
 			// Wire xterm user input to PTY - store disposable
 			this.xtermDataDisposable = this.xtermManager.onData((data) => {
 				if (this.ptyProcess) {
@@ -89,11 +143,16 @@ export class ShellManager extends EventEmitter {
 			// Wire xterm resize to PTY - store disposable
 			this.xtermResizeDisposable = this.xtermManager.onResize(({ cols, rows }) => {
 				if (this.ptyProcess) {
-					this.ptyProcess.resize(cols, rows);
+					this.ptyProcess.resize(cols, rows).catch((error) => this.reportError(error));
 				}
 			});
 
 			this.emit('start', this.ptyProcess.pid);
+
+			const initCommands = (profile.initCommands ?? []).filter((command) => command.trim());
+			if (initCommands.length > 0) {
+				await this.runInitCommands(initCommands);
+			}
 		} catch (error) {
 			console.error('Failed to start shell:', error);
 			// Clean up xterm listeners if spawn fails
@@ -105,6 +164,79 @@ export class ShellManager extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Read a profile's .env file
+	 * Problems are reported in the terminal; the shell starts without the variables.
+	 */
+	private loadEnvFile(envFile: string, cwd?: string): { [key: string]: string } {
+		const path = require('path');
+		const filePath = path.resolve(cwd ?? process.cwd(), envFile);
+		try {
+			const fs = require('fs');
+			return parseDotenv(fs.readFileSync(filePath, 'utf8'));
+		} catch (error) {
+			console.warn('Could not read env file:', filePath, error);
+			this.xtermManager.writeln(`\x1b[2mCould not read env file ${filePath}\x1b[0m`);
+			return {};
+		}
+	}
+
+	/**
+	 * Type startup commands once the shell has printed its prompt
+	 * The prompt is taken to be ready when output pauses.
+	 */
+	private async runInitCommands(commands: string[]): Promise<void> {
+		const ptyProcess = this.ptyProcess;
+		if (!ptyProcess) {
+			return;
+		}
+
+		await new Promise<void>((resolve) => {
+			let quietTimer: ReturnType<typeof setTimeout> | null = null;
+			const finish = () => {
+				if (quietTimer) {
+					clearTimeout(quietTimer);
+				}
+				clearTimeout(maxTimer);
+				this.off('data', onData);
+				this.off('exit', finish);
+				resolve();
+			};
+			const onData = () => {
+				if (quietTimer) {
+					clearTimeout(quietTimer);
+				}
+				quietTimer = setTimeout(finish, INIT_OUTPUT_QUIET_TIME);
+			};
+			const maxTimer = setTimeout(finish, INIT_MAX_WAIT);
+
+			this.on('data', onData);
+			this.once('exit', finish);
+		});
+
+		// The shell may have exited or been replaced while waiting
+		if (this.ptyProcess === ptyProcess) {
+			this.sendText(commands.join('\n'));
+		}
+	}
+
+	/**
+	 * Type text into the shell as a paste, optionally pressing Enter after it
+	 * Multi-line text is pasted as one unit so the shell runs it as a single command
+	 */
+	sendText(text: string, execute = true): void {
+		if (!this.ptyProcess) {
+			throw new Error('Shell is not running');
+		}
+
+		// Drop the trailing newline; Enter is sent separately when executing
+		this.xtermManager.paste(text.replace(/\r?\n$/, ''));
+
+		if (execute) {
+			this.ptyProcess.write('\r');
+		}
+	}
+
 	/**
 	 * Stop the current shell session
 	 */
@@ -114,11 +246,32 @@ export class ShellManager extends EventEmitter {
 
 		// Kill the PTY process
 		if (this.ptyProcess) {
-			this.ptyProcess.kill(signal);
+			this.ptyProcess.kill(signal).catch((error) => this.reportError(error));
 			this.ptyProcess = null;
 		}
 	}
 
+	/**
+	 * Stop the shell and let go of the PTY manager
+	 */
+	dispose(): void {
+		this.stop();
+		this.ptyManager.release();
+	}
+
+	/**
+	 * Emit a failed resize or kill as an error
+	 * A process that has already exited, or went with its host, is not an
+	 * error; a lost host is reported as a disconnect instead.
+	 */
+	private reportError(error: Error): void {
+		if (error instanceof PTYError && ['PTY_NOT_FOUND', 'HOST_EXITED', 'HOST_NOT_RUNNING'].includes(error.code)) {
+			return;
+		}
+		console.error('Shell operation failed:', error);
+		this.emit('error', error);
+	}
+
 	/**
 	 * Dispose of xterm event listeners
 	 */
@@ -140,6 +293,13 @@ export class ShellManager extends EventEmitter {
 		return this.ptyProcess !== null;
 	}
 
+	/**
+	 * Output batching and flow control counters of the running shell
+	 */
+	async getOutputStats(): Promise<OutputStats | null> {
+		return this.ptyProcess ? this.ptyProcess.getStats() : null;
+	}
+
 	/**
 	 * Get the current process ID
 	 */
@@ -161,6 +321,32 @@ export class ShellManager extends EventEmitter {
 		return this.currentProfile;
 	}
 
+	/**
+	 * Get the shell's last known working directory
+	 * Reads the live directory where the platform exposes it, otherwise
+	 * returns the last directory reported by shell integration or the one the
+	 * shell was started in
+	 */
+	getCwd(): string | null {
+		const pid = this.getPid();
+		if (pid !== null && pid > 0 && process.platform === 'linux') {
+			try {
+				const fs = require('fs');
+				this.cwd = fs.readlinkSync(`/proc/${pid}/cwd`);
+			} catch {
+				// Process may have exited; keep the last known value
+			}
+		}
+		return this.cwd;
+	}
+
+	/**
+	 * Record the working directory reported by the shell itself
+	 */
+	setCwd(cwd: string): void {
+		this.cwd = cwd;
+	}
+
 	/**
 	 * Create a default PowerShell profile
 	 */
@@ -183,25 +369,123 @@ export class ShellManager extends EventEmitter {
 		};
 	}
 
+	/**
+	 * Profiles for shells and REPLs the plugin knows how to start,
+	 * whether or not they are installed
+	 */
+	static getBuiltInProfiles(): ShellProfile[] {
+		return [
+			this.getDefaultPowerShellProfile(),
+			this.getWindowsPowerShellProfile(),
+			{ name: 'Bash', shell: 'bash' },
+			{ name: 'Zsh', shell: 'zsh' },
+			{ name: 'Fish', shell: 'fish' },
+			{ name: 'Python', shell: process.platform === 'win32' ? 'python' : 'python3' },
+			{ name: 'Node.js', shell: 'node' },
+		];
+	}
+
 	/**
 	 * Detect available shells on the system
+	 * On Windows the built-in profiles are probed on PATH; elsewhere shells are
+	 * found through $SHELL, /etc/shells and PATH.
 	 */
 	static async detectAvailableShells(): Promise<ShellProfile[]> {
-		const profiles: ShellProfile[] = [];
+		if (process.platform !== 'win32') {
+			return this.detectUnixShells();
+		}
+
+		const profiles = this.getBuiltInProfiles();
+		const available = await Promise.all(
+			profiles.map((profile) => this.isCommandAvailable(profile.shell))
+		);
+		return profiles.filter((_, i) => available[i]);
+	}
+
+	/**
+	 * The user's login shell on macOS and Linux, as a full path
+	 */
+	static getLoginShell(): string | null {
+		if (process.platform === 'win32') {
+			return null;
+		}
+		if (process.env.SHELL) {
+			return process.env.SHELL;
+		}
+		try {
+			return require('os').userInfo().shell || null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Profiles for the known shells installed on macOS or Linux, followed by
+	 * the REPLs found on PATH
+	 *
+	 * Shells are started by full path: Obsidian launched from the desktop often
+	 * has a shorter PATH than a terminal, e.g. without Homebrew's directory.
+	 * The login shell's path wins over /etc/shells, which wins over PATH.
+	 */
+	private static detectUnixShells(): ShellProfile[] {
+		const fs = require('fs');
 
-		// Check for PowerShell Core (pwsh)
-		if (await this.isCommandAvailable('pwsh')) {
-			profiles.push(this.getDefaultPowerShellProfile());
+		const candidates: string[] = [];
+		const loginShell = this.getLoginShell();
+		if (loginShell) {
+			candidates.push(loginShell);
 		}
 
-		// Check for Windows PowerShell (powershell)
-		if (await this.isCommandAvailable('powershell')) {
-			profiles.push(this.getWindowsPowerShellProfile());
+		try {
+			const lines: string[] = fs.readFileSync('/etc/shells', 'utf8').split('\n');
+			candidates.push(...lines.map((line) => line.trim()).filter((line) => line.startsWith('/')));
+		} catch {
+			// Not every system has /etc/shells
+		}
+
+		const paths = new Map<string, string>();
+		for (const candidate of candidates) {
+			const name = getExecutableName(candidate);
+			if (name in UNIX_SHELLS && !paths.has(name) && isExecutable(candidate)) {
+				paths.set(name, candidate);
+			}
+		}
+		for (const name of Object.keys(UNIX_SHELLS)) {
+			const found = paths.get(name) ?? findInPath(name);
+			if (found) {
+				paths.set(name, found);
+			}
+		}
+
+		const profiles: ShellProfile[] = Object.entries(UNIX_SHELLS)
+			.filter(([name]) => paths.has(name))
+			.map(([name, shell]) => ({
+				name: shell.name,
+				shell: paths.get(name) as string,
+				args: process.platform === 'darwin' ? shell.macArgs : shell.linuxArgs,
+			}));
+
+		for (const repl of [{ name: 'Python', shell: 'python3' }, { name: 'Node.js', shell: 'node' }]) {
+			const found = findInPath(repl.shell);
+			if (found) {
+				profiles.push({ name: repl.name, shell: found });
+			}
 		}
 
 		return profiles;
 	}
 
+	/**
+	 * Find a profile by name or by shell executable (case-insensitive,
+	 * ignoring directory and .exe), e.g. "PowerShell Core" or "pwsh"
+	 */
+	static findProfile(profiles: ShellProfile[], query: string): ShellProfile | null {
+		const wanted = query.trim().toLowerCase();
+		return profiles.find((p) => p.name.toLowerCase() === wanted)
+			?? profiles.find((p) => getExecutableName(p.shell) === wanted)
+			?? null;
+	}
+
 	/**
 	 * Check if a command is available in PATH
 	 */
@@ -222,3 +506,54 @@ export class ShellManager extends EventEmitter {
 		}
 	}
 }
+
+/**
+ * Shells detected on macOS and Linux, in the order they are listed
+ * macOS terminals start login shells, so profiles there load the login
+ * files; Linux terminals start interactive non-login shells.
+ */
+const UNIX_SHELLS: Record<string, { name: string; macArgs?: string[]; linuxArgs?: string[] }> = {
+	zsh: { name: 'Zsh', macArgs: ['-l'], linuxArgs: ['-i'] },
+	bash: { name: 'Bash', macArgs: ['-l'], linuxArgs: ['-i'] },
+	fish: { name: 'Fish', macArgs: ['-l'] },
+	nu: { name: 'Nushell', macArgs: ['-l'] },
+	pwsh: { name: 'PowerShell Core', macArgs: ['-Login', '-NoLogo'], linuxArgs: ['-NoLogo'] },
+	sh: { name: 'sh', macArgs: ['-l'], linuxArgs: ['-i'] },
+};
+
+/**
+ * Check that a file exists and can be executed
+ */
+function isExecutable(filePath: string): boolean {
+	try {
+		const fs = require('fs');
+		fs.accessSync(filePath, fs.constants.X_OK);
+		return fs.statSync(filePath).isFile();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Full path of a command found on PATH
+ */
+function findInPath(command: string): string | null {
+	const path = require('path');
+	for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+		if (dir) {
+			const candidate = path.join(dir, command);
+			if (isExecutable(candidate)) {
+				return candidate;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Lowercased executable name without directory or .exe, e.g. `pwsh`
+ */
+export function getExecutableName(shell: string): string {
+	const name = shell.split(/[\\/]/).pop() ?? shell;
+	return name.toLowerCase().replace(/\.exe$/, '');
+}
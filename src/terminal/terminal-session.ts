@@ -0,0 +1,417 @@
+import { EventEmitter } from 'events';
+import { XtermManager, XtermOptions } from './xterm-manager';
+import { ShellManager, ShellProfile } from './shell-manager';
+import { PTYManager } from './pty-manager';
+import { OutputStats } from './pty-protocol';
+import { CommandTracker, TerminalCommand } from './command-tracker';
+import { CommandDecorations } from './command-decorations';
+
+// Leaves the alternate screen and turns off bracketed paste, application
+// cursor keys and mouse tracking, then soft-resets the remaining modes
+const RESET_MODES = '\x1b[?1049l\x1b[?2004l\x1b[?1l\x1b[?1000l\x1b[?1002l\x1b[?1003l\x1b[?1006l\x1b[!p';
+
+export interface TerminalSessionOptions {
+	profile: ShellProfile;
+	xtermOptions: XtermOptions;
+	// The plugin's PTY manager, shared by all sessions
+	ptyManager: PTYManager;
+	clearOnExit: boolean;
+	shellIntegration: boolean;
+}
+
+/**
+ * TerminalSession pairs one xterm instance with one shell process.
+ *
+ * Every pane of every tab in the terminal view owns its own session, so
+ * switching or closing a tab or pane never touches another one's process or
+ * scrollback.
+ *
+ * Events:
+ * - start (pid): shell process started
+ * - exit (code, signal): shell process exited
+ * - disconnect: the PTY host exited and took the shell with it
+ * - error (error): shell failed to start or crashed
+ * - profile-change (profile): a different shell profile was started
+ * - command-start (command): a command started at the shell prompt
+ * - command-finish (command): a command at the shell prompt finished
+ * - cwd-change (cwd): the shell reported a new working directory
+ *
+ * Command events require shell integration; see CommandTracker.
+ */
+export class TerminalSession extends EventEmitter {
+	private static nextId = 1;
+
+	readonly id: number;
+	readonly containerEl: HTMLElement;
+	private xtermManager: XtermManager;
+	private shellManager: ShellManager;
+	private commandTracker: CommandTracker;
+	private commandDecorations: CommandDecorations;
+	private profile: ShellProfile;
+	private clearOnExit: boolean;
+	private switchInProgress = false;
+	private disposed = false;
+	// Shown while the shell is disconnected from the PTY host
+	private disconnectedEl: HTMLElement | null = null;
+
+	// Track shell event listeners for cleanup
+	private shellEventListeners: Array<{
+		event: string;
+		handler: (...args: any[]) => void;
+	}> = [];
+
+	constructor(parentEl: HTMLElement, options: TerminalSessionOptions) {
+		super();
+		this.id = TerminalSession.nextId++;
+		this.profile = options.profile;
+		this.clearOnExit = options.clearOnExit;
+
+		// Create terminal display area
+		this.containerEl = parentEl.createDiv('terminal-display');
+
+		// Initialize xterm and open it in the container
+		this.xtermManager = new XtermManager(options.xtermOptions);
+		this.xtermManager.open(this.containerEl);
+
+		// Initialize shell manager
+		this.shellManager = new ShellManager(this.xtermManager, options.ptyManager, options.shellIntegration);
+
+		// Follow the commands the shell reports through shell integration
+		this.commandTracker = new CommandTracker(this.xtermManager);
+		this.commandTracker.on('command-start', (command: TerminalCommand) => {
+			this.emit('command-start', command);
+		});
+		this.commandTracker.on('command-finish', (command: TerminalCommand) => {
+			this.emit('command-finish', command);
+		});
+		this.commandTracker.on('cwd-change', (cwd: string) => {
+			this.shellManager.setCwd(cwd);
+			this.emit('cwd-change', cwd);
+		});
+		this.commandDecorations = new CommandDecorations(this.xtermManager, this.commandTracker);
+
+		// Handle shell events - store handlers for cleanup
+		const startHandler = (pid: number) => {
+			console.log(`Shell started in session ${this.id} with PID:`, pid);
+			this.hideDisconnected();
+			this.emit('start', pid);
+		};
+
+		const exitHandler = (code: number, signal?: number) => {
+			console.log(`Shell in session ${this.id} exited with code:`, code);
+			this.commandTracker.reset();
+			if (this.clearOnExit) {
+				this.xtermManager.clear();
+			}
+			this.xtermManager.writeln(`\r\nProcess exited with code ${code}`);
+			this.emit('exit', code, signal);
+		};
+
+		const disconnectHandler = () => {
+			console.warn(`Shell in session ${this.id} was disconnected from the PTY host`);
+			this.commandTracker.reset();
+			this.xtermManager.writeln('\r\n\x1b[31mDisconnected: the terminal backend stopped unexpectedly.\x1b[0m');
+			this.showDisconnected();
+			this.emit('disconnect');
+		};
+
+		const errorHandler = (error: Error) => {
+			this.emit('error', error);
+		};
+
+		this.shellManager.on('start', startHandler);
+		this.shellManager.on('exit', exitHandler);
+		this.shellManager.on('disconnect', disconnectHandler);
+		this.shellManager.on('error', errorHandler);
+
+		// Store for cleanup
+		this.shellEventListeners = [
+			{ event: 'start', handler: startHandler },
+			{ event: 'exit', handler: exitHandler },
+			{ event: 'disconnect', handler: disconnectHandler },
+			{ event: 'error', handler: errorHandler },
+		];
+	}
+
+	/**
+	 * Start the session's shell in the given working directory
+	 */
+	async start(cwd: string): Promise<void> {
+		await this.shellManager.start(this.profile, cwd);
+	}
+
+	/**
+	 * Start the session's profile again in the shell's last working directory,
+	 * after it was disconnected
+	 */
+	async restart(): Promise<void> {
+		if (this.disposed || this.shellManager.isRunning()) {
+			return;
+		}
+
+		this.hideDisconnected();
+		this.xtermManager.writeln('\x1b[2m──── Session restarted ────\x1b[0m');
+
+		try {
+			await this.shellManager.start(this.profile, this.getCwd() ?? undefined);
+		} catch {
+			// Reported through the error event; offer the restart again
+			this.showDisconnected();
+		}
+	}
+
+	/**
+	 * Whether the shell was lost with the PTY host and not restarted yet
+	 */
+	isDisconnected(): boolean {
+		return this.disconnectedEl !== null;
+	}
+
+	/**
+	 * Replace the running shell with a different profile
+	 * Protected against race conditions and includes timeout
+	 */
+	async switchProfile(profile: ShellProfile, cwd: string): Promise<void> {
+		// Prevent concurrent shell switches
+		if (this.disposed || this.switchInProgress) {
+			return;
+		}
+
+		this.switchInProgress = true;
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				const startShell = async () => {
+					try {
+						await this.shellManager.start(profile, cwd);
+						resolve();
+					} catch (error) {
+						reject(error);
+					}
+				};
+
+				// Shell not running, start immediately
+				if (!this.shellManager.isRunning()) {
+					startShell();
+					return;
+				}
+
+				// 5 second timeout for shell to exit
+				const timeoutId = setTimeout(() => {
+					this.shellManager.off('exit', onExit);
+					reject(new Error('Shell switch timeout - shell did not exit cleanly'));
+				}, 5000);
+
+				// Listen for exit event to ensure clean shutdown
+				const onExit = () => {
+					clearTimeout(timeoutId);
+					startShell();
+				};
+
+				this.shellManager.once('exit', onExit);
+				this.shellManager.stop();
+			});
+
+			this.profile = profile;
+			this.emit('profile-change', profile);
+		} finally {
+			this.switchInProgress = false;
+		}
+	}
+
+	/**
+	 * Fit xterm to the container and forward the new size to the PTY
+	 */
+	fit(): void {
+		this.shellManager.resize();
+	}
+
+	focus(): void {
+		this.xtermManager.focus();
+	}
+
+	clear(): void {
+		this.xtermManager.clear();
+	}
+
+	/**
+	 * Write output saved by a previous session above a "session restored" marker
+	 * Call before start() so the new shell's prompt appears below the marker
+	 */
+	restoreScrollback(serialized: string): void {
+		if (serialized) {
+			this.xtermManager.write(serialized);
+			this.xtermManager.writeln('');
+		}
+		// Scrollback saved by older versions may switch modes on; the new
+		// shell turns on the ones it uses
+		this.xtermManager.write(RESET_MODES);
+		this.xtermManager.writeln('\x1b[2m──── Session restored ────\x1b[0m');
+	}
+
+	/**
+	 * Serialize the session's scrollback for persistence
+	 */
+	serializeScrollback(): string {
+		return this.xtermManager.serialize();
+	}
+
+	/**
+	 * Scroll the previous (-1) or next (1) command's prompt to the top of the view
+	 * @returns Whether there was a command in that direction
+	 */
+	scrollToCommand(direction: 1 | -1): boolean {
+		const top = this.xtermManager.getViewportTopLine();
+		const lines = this.commandTracker.getCommands()
+			.filter((command) => !command.promptMarker.isDisposed)
+			.map((command) => command.promptMarker.line);
+
+		const target = direction === 1
+			? lines.find((line) => line > top)
+			: lines.reverse().find((line) => line < top);
+		if (target === undefined) {
+			return false;
+		}
+
+		this.xtermManager.scrollToLine(target);
+		return true;
+	}
+
+	/**
+	 * Select the output of the command scrolled to the top of the view, or of
+	 * the last finished command when the view is at the bottom
+	 * @returns Whether there was output to select
+	 */
+	selectCommandOutput(): boolean {
+		const command = this.getCommandAtViewportTop() ?? this.commandTracker.getLastFinishedCommand();
+		const range = command ? this.commandTracker.getOutputRange(command) : null;
+		if (!range) {
+			return false;
+		}
+
+		this.xtermManager.selectLines(range.start, range.end);
+		return true;
+	}
+
+	/**
+	 * Plain text output of the last finished command
+	 */
+	getLastCommandOutput(): string | null {
+		const command = this.commandTracker.getLastFinishedCommand();
+		const range = command ? this.commandTracker.getOutputRange(command) : null;
+		if (!range) {
+			return null;
+		}
+		return this.xtermManager.getText(range.start, range.end).replace(/\s+$/, '');
+	}
+
+	/**
+	 * Output batching and flow control counters of the shell, or null when
+	 * it is not running
+	 */
+	getOutputStats(): Promise<OutputStats | null> {
+		return this.shellManager.getOutputStats();
+	}
+
+	/**
+	 * Last known working directory of the shell
+	 */
+	getCwd(): string | null {
+		return this.shellManager.getCwd();
+	}
+
+	/**
+	 * Title shown on the session's tab
+	 */
+	getTitle(): string {
+		return this.profile.name;
+	}
+
+	getProfile(): ShellProfile {
+		return this.profile;
+	}
+
+	getXtermManager(): XtermManager {
+		return this.xtermManager;
+	}
+
+	getShellManager(): ShellManager {
+		return this.shellManager;
+	}
+
+	getCommandTracker(): CommandTracker {
+		return this.commandTracker;
+	}
+
+	/**
+	 * Show the disconnected bar with its restart button over the terminal
+	 */
+	private showDisconnected(): void {
+		if (this.disposed || this.disconnectedEl) {
+			return;
+		}
+
+		this.disconnectedEl = this.containerEl.createDiv('terminal-disconnected');
+		this.disconnectedEl.createSpan({ text: 'Session disconnected' });
+		const button = this.disconnectedEl.createEl('button', {
+			text: 'Restart session',
+			cls: 'mod-cta',
+		});
+		button.addEventListener('click', () => {
+			void this.restart();
+		});
+	}
+
+	private hideDisconnected(): void {
+		this.disconnectedEl?.remove();
+		this.disconnectedEl = null;
+	}
+
+	/**
+	 * Command whose prompt is at or above the top of the view, unless the view
+	 * is scrolled to the bottom
+	 */
+	private getCommandAtViewportTop(): TerminalCommand | null {
+		if (this.xtermManager.isScrolledToBottom()) {
+			return null;
+		}
+
+		const top = this.xtermManager.getViewportTopLine();
+
+		const commands = this.commandTracker.getCommands()
+			.filter((command) => !command.promptMarker.isDisposed && command.promptMarker.line <= top);
+		return commands[commands.length - 1] ?? null;
+	}
+
+	/**
+	 * Stop the shell, dispose xterm and remove the session's DOM
+	 */
+	dispose(warnIfRunning: boolean): void {
+		if (this.disposed) {
+			return;
+		}
+		this.disposed = true;
+
+		// Remove shell event listeners
+		this.shellEventListeners.forEach(({ event, handler }) => {
+			this.shellManager.off(event, handler);
+		});
+		this.shellEventListeners = [];
+
+		// Stop shell and release the PTY host
+		if (this.shellManager.isRunning() && warnIfRunning) {
+			// TODO: Add confirmation dialog
+			console.log(`Closing terminal session ${this.id} with running process`);
+		}
+		this.shellManager.dispose();
+
+		// Dispose command tracking before the xterm it listens to
+		this.commandDecorations.dispose();
+		this.commandTracker.dispose();
+
+		// Dispose xterm
+		this.xtermManager.dispose();
+		this.containerEl.remove();
+		this.removeAllListeners();
+	}
+}
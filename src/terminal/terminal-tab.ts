@@ -0,0 +1,406 @@
+import { EventEmitter } from 'events';
+import { TerminalSession } from './terminal-session';
+import { ShellProfile } from './shell-manager';
+
+/**
+ * Direction a split lays out its children:
+ * - horizontal: side by side, divided by a vertical bar
+ * - vertical: stacked, divided by a horizontal bar
+ */
+export type SplitDirection = 'horizontal' | 'vertical';
+
+/**
+ * Tree describing how a tab's panes are split; T is what each pane holds
+ */
+export type PaneLayout<T> =
+	| { kind: 'pane'; pane: T }
+	| {
+		kind: 'split';
+		direction: SplitDirection;
+		children: PaneLayout<T>[];
+		// Relative flex-grow weight of each child
+		sizes: number[];
+	};
+
+type PaneNode = PaneLayout<TerminalSession>;
+type PaneLeaf = Extract<PaneNode, { kind: 'pane' }>;
+type PaneSplit = Extract<PaneNode, { kind: 'split' }>;
+
+/**
+ * Copy a layout, converting what each pane holds
+ */
+export function mapPaneLayout<A, B>(layout: PaneLayout<A>, fn: (pane: A) => B): PaneLayout<B> {
+	if (layout.kind === 'pane') {
+		return { kind: 'pane', pane: fn(layout.pane) };
+	}
+	return {
+		kind: 'split',
+		direction: layout.direction,
+		children: layout.children.map((child) => mapPaneLayout(child, fn)),
+		sizes: [...layout.sizes],
+	};
+}
+
+/**
+ * Creates a session for a profile, with its container under the given element
+ */
+export type SessionFactory = (parentEl: HTMLElement, profile: ShellProfile) => TerminalSession;
+
+// Smallest size a pane can be dragged down to, in pixels
+const MIN_PANE_SIZE = 60;
+
+/**
+ * TerminalTab holds the panes shown in one terminal tab.
+ *
+ * Panes are arranged as a tree of splits; every pane is an independent
+ * TerminalSession with its own xterm and shell process.
+ *
+ * Events:
+ * - active-change (session): a different pane received focus
+ * - layout-change: panes were added, removed or resized
+ * - empty: the last pane was closed
+ */
+export class TerminalTab extends EventEmitter {
+	readonly contentEl: HTMLElement;
+	private root: PaneNode | null;
+	private activeSession: TerminalSession;
+	private createSession: SessionFactory;
+
+	// Track DOM event listeners of the current layout for cleanup
+	private layoutListeners: Array<{
+		element: HTMLElement | Window;
+		type: string;
+		handler: EventListener;
+	}> = [];
+
+	// Cancels an in-progress divider drag
+	private cancelDrag: (() => void) | null = null;
+
+	/**
+	 * @param layout - Initial panes; their sessions are moved into the tab
+	 * @param createSession - Creates the sessions of panes added by splitting
+	 * @param activeIndex - Index (in layout order) of the initially focused pane
+	 */
+	constructor(parentEl: HTMLElement, layout: PaneLayout<TerminalSession>, createSession: SessionFactory, activeIndex = 0) {
+		super();
+		this.contentEl = parentEl.createDiv('terminal-tab-content');
+		this.createSession = createSession;
+		this.root = mapPaneLayout(layout, (session) => session);
+
+		const sessions = this.getSessions();
+		this.activeSession = sessions[activeIndex] ?? sessions[0];
+		this.render();
+	}
+
+	/**
+	 * Split the active pane, placing a new session with the same profile after it
+	 * @returns The new session (not yet started)
+	 */
+	split(direction: SplitDirection): TerminalSession {
+		const target = this.activeSession;
+		const session = this.createSession(this.contentEl, target.getProfile());
+		const newLeaf: PaneLeaf = { kind: 'pane', pane: session };
+
+		const parent = this.findParent(target);
+		if (parent && parent.direction === direction) {
+			// Same direction: insert as a sibling, halving the target's share
+			const index = parent.children.findIndex((c) => c.kind === 'pane' && c.pane === target);
+			const half = parent.sizes[index] / 2;
+			parent.sizes[index] = half;
+			parent.children.splice(index + 1, 0, newLeaf);
+			parent.sizes.splice(index + 1, 0, half);
+		} else {
+			// Different direction: replace the target pane with a new split
+			const split: PaneSplit = {
+				kind: 'split',
+				direction,
+				children: [{ kind: 'pane', pane: target }, newLeaf],
+				sizes: [1, 1],
+			};
+			this.replaceNode(target, split);
+		}
+
+		this.render();
+		this.setActiveSession(session);
+		this.emit('layout-change');
+		return session;
+	}
+
+	/**
+	 * Close a pane and dispose its session
+	 */
+	closePane(session: TerminalSession, warnIfRunning: boolean): void {
+		const sessions = this.getSessions();
+		const index = sessions.indexOf(session);
+		if (index === -1) {
+			return;
+		}
+
+		const parent = this.findParent(session);
+		if (!parent) {
+			// Last pane in the tab
+			this.root = null;
+		} else {
+			const childIndex = parent.children.findIndex((c) => c.kind === 'pane' && c.pane === session);
+			parent.children.splice(childIndex, 1);
+			parent.sizes.splice(childIndex, 1);
+
+			// Collapse splits left with a single child
+			if (parent.children.length === 1) {
+				this.replaceNode(parent, parent.children[0]);
+			}
+		}
+
+		session.dispose(warnIfRunning);
+
+		if (!this.root) {
+			this.emit('empty');
+			return;
+		}
+
+		this.render();
+		if (this.activeSession === session) {
+			const remaining = this.getSessions();
+			this.setActiveSession(remaining[Math.min(index, remaining.length - 1)]);
+		}
+		this.emit('layout-change');
+	}
+
+	/**
+	 * Move focus to the next (1) or previous (-1) pane, wrapping around
+	 */
+	cyclePane(direction: 1 | -1): void {
+		const sessions = this.getSessions();
+		const index = sessions.indexOf(this.activeSession);
+		const next = sessions[(index + direction + sessions.length) % sessions.length];
+		this.setActiveSession(next);
+		next.focus();
+	}
+
+	/**
+	 * Mark a pane as the one receiving commands from the view
+	 */
+	setActiveSession(session: TerminalSession): void {
+		if (this.activeSession === session) {
+			return;
+		}
+		this.activeSession = session;
+		this.updateFocusClasses();
+		this.emit('active-change', session);
+	}
+
+	getActiveSession(): TerminalSession {
+		return this.activeSession;
+	}
+
+	/**
+	 * All sessions in layout order
+	 */
+	getSessions(): TerminalSession[] {
+		const sessions: TerminalSession[] = [];
+		const walk = (node: PaneNode | null) => {
+			if (!node) {
+				return;
+			}
+			if (node.kind === 'pane') {
+				sessions.push(node.pane);
+			} else {
+				node.children.forEach(walk);
+			}
+		};
+		walk(this.root);
+		return sessions;
+	}
+
+	/**
+	 * Current pane layout, for persisting the tab
+	 */
+	getLayout(): PaneLayout<TerminalSession> {
+		return this.root
+			? mapPaneLayout(this.root, (session) => session)
+			: { kind: 'pane', pane: this.activeSession };
+	}
+
+	show(): void {
+		this.contentEl.show();
+		this.fitAll();
+	}
+
+	hide(): void {
+		this.contentEl.hide();
+	}
+
+	/**
+	 * Fit every pane to its container
+	 */
+	fitAll(): void {
+		this.getSessions().forEach((session) => session.fit());
+	}
+
+	/**
+	 * Dispose every pane and remove the tab's DOM
+	 */
+	dispose(warnIfRunning: boolean): void {
+		this.removeLayoutListeners();
+		this.getSessions().forEach((session) => session.dispose(warnIfRunning));
+		this.root = null;
+		this.contentEl.remove();
+		this.removeAllListeners();
+	}
+
+	/**
+	 * Rebuild the layout DOM from the pane tree, reusing session containers
+	 */
+	private render(): void {
+		this.removeLayoutListeners();
+
+		// Detach session containers so emptying the layout keeps them alive
+		const sessions = this.getSessions();
+		sessions.forEach((session) => session.containerEl.detach());
+		this.contentEl.empty();
+
+		if (this.root) {
+			this.renderNode(this.root, this.contentEl);
+		}
+
+		// Track which pane the user is typing in
+		for (const session of sessions) {
+			const focusHandler = () => this.setActiveSession(session);
+			session.containerEl.addEventListener('focusin', focusHandler);
+			this.layoutListeners.push({ element: session.containerEl, type: 'focusin', handler: focusHandler });
+		}
+
+		this.updateFocusClasses();
+	}
+
+	private renderNode(node: PaneNode, parentEl: HTMLElement): void {
+		if (node.kind === 'pane') {
+			parentEl.appendChild(node.pane.containerEl);
+			return;
+		}
+
+		const splitEl = parentEl.createDiv({
+			cls: ['terminal-split', `terminal-split-${node.direction}`],
+		});
+
+		const childEls: HTMLElement[] = [];
+		node.children.forEach((child, index) => {
+			if (index > 0) {
+				const dividerEl = splitEl.createDiv('terminal-split-divider');
+				this.setupDivider(dividerEl, node, index - 1, childEls);
+			}
+
+			const childEl = splitEl.createDiv('terminal-split-child');
+			childEl.style.flexGrow = String(node.sizes[index]);
+			childEls.push(childEl);
+			this.renderNode(child, childEl);
+		});
+	}
+
+	/**
+	 * Make a divider draggable, resizing the children on either side of it
+	 */
+	private setupDivider(dividerEl: HTMLElement, split: PaneSplit, beforeIndex: number, childEls: HTMLElement[]): void {
+		const horizontal = split.direction === 'horizontal';
+
+		const mouseDownHandler = (downEvent: MouseEvent) => {
+			downEvent.preventDefault();
+
+			const beforeEl = childEls[beforeIndex];
+			const afterEl = childEls[beforeIndex + 1];
+			const beforeRect = beforeEl.getBoundingClientRect();
+			const afterRect = afterEl.getBoundingClientRect();
+			const beforeStart = horizontal ? beforeRect.width : beforeRect.height;
+			const total = beforeStart + (horizontal ? afterRect.width : afterRect.height);
+			const weight = split.sizes[beforeIndex] + split.sizes[beforeIndex + 1];
+			const origin = horizontal ? downEvent.clientX : downEvent.clientY;
+
+			dividerEl.addClass('is-dragging');
+
+			const moveHandler = (moveEvent: MouseEvent) => {
+				const delta = (horizontal ? moveEvent.clientX : moveEvent.clientY) - origin;
+				const beforeSize = Math.min(Math.max(beforeStart + delta, MIN_PANE_SIZE), total - MIN_PANE_SIZE);
+
+				split.sizes[beforeIndex] = weight * (beforeSize / total);
+				split.sizes[beforeIndex + 1] = weight - split.sizes[beforeIndex];
+				beforeEl.style.flexGrow = String(split.sizes[beforeIndex]);
+				afterEl.style.flexGrow = String(split.sizes[beforeIndex + 1]);
+			};
+
+			const stopDrag = () => {
+				window.removeEventListener('mousemove', moveHandler);
+				window.removeEventListener('mouseup', upHandler);
+				dividerEl.removeClass('is-dragging');
+				this.cancelDrag = null;
+			};
+
+			const upHandler = () => {
+				stopDrag();
+				this.emit('layout-change');
+			};
+
+			window.addEventListener('mousemove', moveHandler);
+			window.addEventListener('mouseup', upHandler);
+			this.cancelDrag = stopDrag;
+		};
+
+		dividerEl.addEventListener('mousedown', mouseDownHandler);
+		this.layoutListeners.push({ element: dividerEl, type: 'mousedown', handler: mouseDownHandler as EventListener });
+	}
+
+	private removeLayoutListeners(): void {
+		this.cancelDrag?.();
+		this.layoutListeners.forEach(({ element, type, handler }) => {
+			element.removeEventListener(type, handler);
+		});
+		this.layoutListeners = [];
+	}
+
+	private updateFocusClasses(): void {
+		for (const session of this.getSessions()) {
+			session.containerEl.toggleClass('is-focused', session === this.activeSession);
+		}
+	}
+
+	/**
+	 * Find the split directly containing a session or node
+	 */
+	private findParent(target: TerminalSession | PaneNode): PaneSplit | null {
+		const matches = (node: PaneNode) =>
+			node === target || (node.kind === 'pane' && node.pane === target);
+
+		const search = (node: PaneNode): PaneSplit | null => {
+			if (node.kind === 'pane') {
+				return null;
+			}
+			for (const child of node.children) {
+				if (matches(child)) {
+					return node;
+				}
+				const found = search(child);
+				if (found) {
+					return found;
+				}
+			}
+			return null;
+		};
+
+		return this.root ? search(this.root) : null;
+	}
+
+	/**
+	 * Replace a node (or the pane of a session) in the tree
+	 */
+	private replaceNode(target: TerminalSession | PaneNode, replacement: PaneNode): void {
+		const parent = this.findParent(target);
+		if (!parent) {
+			this.root = replacement;
+			return;
+		}
+
+		const index = parent.children.findIndex((c) =>
+			c === target || (c.kind === 'pane' && c.pane === target)
+		);
+		parent.children[index] = replacement;
+	}
+}
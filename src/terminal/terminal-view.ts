@@ -1,10 +1,66 @@
-import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Notice, ViewStateResult, setIcon } from 'obsidian';
 import { XtermManager } from './xterm-manager';
 import { ShellManager, ShellProfile } from './shell-manager';
+import { TerminalSession } from './terminal-session';
+import { mapPaneLayout, PaneLayout, SplitDirection, TerminalTab } from './terminal-tab';
 import CodeUnblockTerminalPlugin from '../main';
+import { expandWorkingDirectory, getVaultPath } from '../context/working-directory';
 
 export const TERMINAL_VIEW_TYPE = 'code-unblock-terminal-view';
 
+// How often the layout (and with it every session's scrollback) is saved
+const SAVE_LAYOUT_INTERVAL = 60 * 1000;
+
+/**
+ * Persisted state of one pane
+ */
+interface SavedPane {
+	profile: ShellProfile;
+	cwd: string | null;
+	scrollback: string;
+}
+
+/**
+ * Persisted state of one tab
+ */
+interface SavedTab {
+	layout: PaneLayout<SavedPane>;
+	activePane: number;
+}
+
+/**
+ * View state stored in the workspace layout, used to restore sessions on startup
+ */
+interface TerminalViewState {
+	tabs?: SavedTab[];
+	activeTab?: number;
+}
+
+/**
+ * Where a shell must run for ensureShellManager
+ */
+export interface LaunchOptions {
+	// Absolute working directory
+	cwd?: string;
+	// Environment variables added to the profile's
+	env?: { [key: string]: string };
+}
+
+/**
+ * A tab header together with the panes it shows
+ */
+interface TabEntry {
+	tab: TerminalTab;
+	tabEl: HTMLElement;
+	iconEl: HTMLElement;
+	titleEl: HTMLElement;
+	listeners: Array<{
+		element: HTMLElement;
+		type: string;
+		handler: EventListener;
+	}>;
+}
+
 /**
  * TerminalView provides the main terminal panel UI and integrates with
  * Obsidian's workspace system.
@@ -13,18 +69,25 @@ export const TERMINAL_VIEW_TYPE = 'code-unblock-terminal-view';
  * - Create and manage terminal UI container
  * - Integrate with Obsidian workspace (leaf, view)
  * - Handle panel visibility and resizing
- * - Coordinate xterm and shell managers
+ * - Manage terminal tabs and their split panes, each pane with its own
+ *   xterm and shell session
  */
 export class TerminalView extends ItemView {
 	private plugin: CodeUnblockTerminalPlugin;
-	private pluginDir: string | null;
-	private xtermManager: XtermManager | null = null;
-	private shellManager: ShellManager | null = null;
+	private profiles: ShellProfile[] = [];
+	private tabs: TabEntry[] = [];
+	private activeTab: TabEntry | null = null;
+	private tabBar: HTMLElement | null = null;
+	private newTabBtn: HTMLElement | null = null;
+	private shellSelector: HTMLSelectElement | null = null;
 	private terminalContainer: HTMLElement | null = null;
+	private backendBanner: HTMLElement | null = null;
+	private hostReadyHandler: (() => void) | null = null;
 	private resizeObserver: ResizeObserver | null = null;
 	private windowResizeHandler: (() => void) | null = null;
 	private pendingResizeFrame: number | null = null;
-	private switchInProgress = false;
+	private pendingResizeSessions: Set<TerminalSession> = new Set();
+	private sessionsInitialized = false;
 
 	// Track DOM event listeners for cleanup
 	private buttonListeners: Array<{
@@ -33,16 +96,9 @@ export class TerminalView extends ItemView {
 		handler: EventListener;
 	}> = [];
 
-	// Track shell event listeners for cleanup
-	private shellEventListeners: Array<{
-		event: string;
-		handler: (...args: any[]) => void;
-	}> = [];
-
-	constructor(leaf: WorkspaceLeaf, plugin: CodeUnblockTerminalPlugin, pluginDir: string | null = null) {
+	constructor(leaf: WorkspaceLeaf, plugin: CodeUnblockTerminalPlugin) {
 		super(leaf);
 		this.plugin = plugin;
-		this.pluginDir = pluginDir;
 	}
 
 	getViewType(): string {
@@ -68,33 +124,39 @@ export class TerminalView extends ItemView {
 		// Create terminal controls
 		const controls = terminalWrapper.createDiv('terminal-controls');
 
+		// Tab strip with the [+] button at its end
+		this.tabBar = controls.createDiv('terminal-tab-bar');
+		const newTabBtn = this.tabBar.createEl('button', {
+			text: '+',
+			cls: 'terminal-new-btn',
+			attr: { 'aria-label': 'New terminal' },
+		});
+		this.newTabBtn = newTabBtn;
+
 		// Shell selector
 		const shellSelector = controls.createEl('select', {
 			cls: 'terminal-shell-selector',
 		});
+		this.shellSelector = shellSelector;
 
-		// Detect available shells
-		const availableShells = await ShellManager.detectAvailableShells();
-		if (availableShells.length === 0) {
-			new Notice('No compatible shells found. Please install PowerShell Core (pwsh) or Windows PowerShell.');
-			return;
+		// Load shell profiles
+		this.profiles = await this.plugin.getProfiles();
+		if (this.profiles.length === 0) {
+			new Notice('No shell profiles found. Install a shell or add a profile in the Code Unblock Terminal settings.');
 		}
+		this.renderShellSelector();
 
-		// Populate shell selector
-		availableShells.forEach((profile) => {
-			const option = shellSelector.createEl('option', {
-				text: profile.name,
-				value: profile.shell,
-			});
-			if (profile.shell === this.plugin.settings.defaultShell) {
-				option.selected = true;
-			}
+		// Split buttons
+		const splitRightBtn = controls.createEl('button', {
+			text: '◫',
+			cls: 'terminal-split-btn',
+			attr: { 'aria-label': 'Split right' },
 		});
 
-		// New terminal button
-		const newTerminalBtn = controls.createEl('button', {
-			text: 'New Terminal',
-			cls: 'terminal-new-btn',
+		const splitDownBtn = controls.createEl('button', {
+			text: '⊟',
+			cls: 'terminal-split-btn',
+			attr: { 'aria-label': 'Split down' },
 		});
 
 		// Clear terminal button
@@ -103,77 +165,42 @@ export class TerminalView extends ItemView {
 			cls: 'terminal-clear-btn',
 		});
 
-		// Create terminal display area
-		this.terminalContainer = terminalWrapper.createDiv('terminal-display');
-
-		// Initialize xterm
-		const theme = this.getTheme();
-		this.xtermManager = new XtermManager({
-			fontFamily: this.plugin.settings.fontFamily,
-			fontSize: this.plugin.settings.fontSize,
-			theme,
-			scrollback: this.plugin.settings.scrollbackLines,
-		});
+		// Explain what doesn't work when the PTY host runs without node-pty
+		this.backendBanner = terminalWrapper.createDiv('terminal-backend-banner');
+		this.updateBackendBanner();
+		this.hostReadyHandler = () => this.updateBackendBanner();
+		this.plugin.ptyManager.on('host-ready', this.hostReadyHandler);
 
-		// Open xterm in container
-		this.xtermManager.open(this.terminalContainer);
+		// Create the area holding every tab's panes
+		this.terminalContainer = terminalWrapper.createDiv('terminal-sessions');
 
-		// Initialize shell manager
-		this.shellManager = new ShellManager(this.xtermManager, this.pluginDir);
+		// Handle resize events - setup before starting shell
+		this.setupResizeHandling();
 
-		// Handle shell events - store handlers for cleanup
-		const startHandler = (pid: number) => {
-			console.log('Shell started with PID:', pid);
+		// Button event handlers - store for cleanup
+		const newTerminalHandler = async () => {
+			await this.createTabWithSelectedProfile();
 		};
 
-		const exitHandler = (code: number) => {
-			console.log('Shell exited with code:', code);
-			if (this.plugin.settings.clearTerminalOnShellExit) {
-				this.xtermManager?.clear();
-			}
-			this.xtermManager?.writeln(`\r\nProcess exited with code ${code}`);
+		const splitRightHandler = async () => {
+			await this.splitActivePane('horizontal');
 		};
 
-		const errorHandler = (error: Error) => {
-			console.error('Shell error:', error);
-			new Notice(`Terminal error: ${error.message}`);
-		};
-
-		this.shellManager.on('start', startHandler);
-		this.shellManager.on('exit', exitHandler);
-		this.shellManager.on('error', errorHandler);
-
-		// Store for cleanup
-		this.shellEventListeners = [
-			{ event: 'start', handler: startHandler },
-			{ event: 'exit', handler: exitHandler },
-			{ event: 'error', handler: errorHandler },
-		];
-
-		// Handle resize events - setup before starting shell
-		this.setupResizeHandling();
-
-		// Start the default shell
-		const defaultProfile = availableShells.find(
-			(p) => p.shell === this.plugin.settings.defaultShell
-		) || availableShells[0];
-
-		// Button event handlers - store for cleanup
-		const newTerminalHandler = () => {
-			// TODO: Implement tabbed terminals in future phase
-			new Notice('Multiple terminals will be available in a future update');
+		const splitDownHandler = async () => {
+			await this.splitActivePane('vertical');
 		};
 
 		const clearHandler = () => {
-			this.xtermManager?.clear();
+			this.getActiveSession()?.clear();
 		};
 
 		const shellSelectorHandler = async (e: Event) => {
-			const selectedShell = (e.target as HTMLSelectElement).value;
-			const profile = availableShells.find((p) => p.shell === selectedShell);
-			if (profile && this.shellManager) {
+			const selectedId = (e.target as HTMLSelectElement).value;
+			const profile = this.profiles.find((p) => p.id === selectedId);
+			const session = this.getActiveSession();
+			if (profile && session) {
 				try {
-					await this.switchShell(profile);
+					await session.switchProfile(profile, this.getProfileDirectory(profile) ?? this.getWorkingDirectory());
 				} catch (error) {
 					console.error('Failed to switch shell:', error);
 					new Notice('Failed to switch shell. Check console for details.');
@@ -181,29 +208,69 @@ export class TerminalView extends ItemView {
 			}
 		};
 
-		newTerminalBtn.addEventListener('click', newTerminalHandler);
+		newTabBtn.addEventListener('click', newTerminalHandler);
+		splitRightBtn.addEventListener('click', splitRightHandler);
+		splitDownBtn.addEventListener('click', splitDownHandler);
 		clearBtn.addEventListener('click', clearHandler);
 		shellSelector.addEventListener('change', shellSelectorHandler);
 
 		// Store for cleanup
 		this.buttonListeners = [
-			{ element: newTerminalBtn, type: 'click', handler: newTerminalHandler },
+			{ element: newTabBtn, type: 'click', handler: newTerminalHandler },
+			{ element: splitRightBtn, type: 'click', handler: splitRightHandler },
+			{ element: splitDownBtn, type: 'click', handler: splitDownHandler },
 			{ element: clearBtn, type: 'click', handler: clearHandler },
 			{ element: shellSelector, type: 'change', handler: shellSelectorHandler },
 		];
 
-		try {
-			await this.shellManager.start(defaultProfile, this.getWorkingDirectory());
-		} catch (error) {
-			console.error('Failed to start shell:', error);
-			new Notice('Failed to start terminal. Check console for details.');
-			// Clean up ALL resources on error
-			this.cleanupResources();
+		// Save scrollback periodically; output alone does not trigger a layout save
+		this.registerInterval(window.setInterval(() => {
+			this.app.workspace.requestSaveLayout();
+		}, SAVE_LAYOUT_INTERVAL));
+
+		// Sessions are created in setState(), which runs right after onOpen()
+	}
+
+	/**
+	 * Restore saved sessions, or start the default shell in a fresh tab
+	 */
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		await super.setState(state, result);
+
+		// Only the first call after opening initializes sessions
+		if (this.sessionsInitialized) {
 			return;
 		}
+		this.sessionsInitialized = true;
 
-		// Focus terminal
-		this.xtermManager.focus();
+		const saved = state as TerminalViewState | null;
+		if (this.plugin.settings.restoreTerminalsOnStartup && saved?.tabs?.length) {
+			await this.restoreTabs(saved);
+		}
+
+		const defaultProfile = this.getDefaultProfile();
+		if (this.tabs.length === 0 && defaultProfile) {
+			await this.createTab(defaultProfile);
+		}
+	}
+
+	/**
+	 * Save every tab's layout, and each pane's profile, cwd and scrollback
+	 */
+	getState(): Record<string, unknown> {
+		const state: TerminalViewState = {
+			tabs: this.tabs.map(({ tab }) => ({
+				layout: mapPaneLayout(tab.getLayout(), (session): SavedPane => ({
+					profile: session.getProfile(),
+					cwd: session.getCwd(),
+					scrollback: session.serializeScrollback(),
+				})),
+				activePane: Math.max(tab.getSessions().indexOf(tab.getActiveSession()), 0),
+			})),
+			activeTab: this.activeTab ? this.tabs.indexOf(this.activeTab) : 0,
+		};
+
+		return { ...super.getState(), ...state };
 	}
 
 	async onClose(): Promise<void> {
@@ -211,7 +278,7 @@ export class TerminalView extends ItemView {
 	}
 
 	/**
-	 * Clean up all resources (event listeners, observers, managers)
+	 * Clean up all resources (event listeners, observers, sessions)
 	 */
 	private cleanupResources(): void {
 		// Cancel pending resize frame
@@ -219,6 +286,7 @@ export class TerminalView extends ItemView {
 			cancelAnimationFrame(this.pendingResizeFrame);
 			this.pendingResizeFrame = null;
 		}
+		this.pendingResizeSessions.clear();
 
 		// Clean up resize observer
 		if (this.resizeObserver) {
@@ -232,104 +300,529 @@ export class TerminalView extends ItemView {
 			this.windowResizeHandler = null;
 		}
 
+		// Stop following the PTY host
+		if (this.hostReadyHandler) {
+			this.plugin.ptyManager.off('host-ready', this.hostReadyHandler);
+			this.hostReadyHandler = null;
+		}
+
 		// Remove DOM event listeners
 		this.buttonListeners.forEach(({ element, type, handler }) => {
 			element.removeEventListener(type, handler);
 		});
 		this.buttonListeners = [];
 
-		// Remove shell event listeners
-		this.shellEventListeners.forEach(({ event, handler }) => {
-			this.shellManager?.off(event, handler);
+		// Stop every pane's shell and dispose its xterm
+		for (const entry of this.tabs) {
+			this.disposeTab(entry);
+		}
+		this.tabs = [];
+		this.activeTab = null;
+	}
+
+	/**
+	 * Open a new tab running the given profile and make it active
+	 */
+	async createTab(profile: ShellProfile, cwd?: string): Promise<TerminalTab | null> {
+		if (!this.terminalContainer) {
+			return null;
+		}
+
+		const session = this.createSession(this.terminalContainer, profile);
+		const entry = this.addTab({ kind: 'pane', pane: session }, 0);
+		if (!entry) {
+			session.dispose(false);
+			return null;
+		}
+
+		const started = await this.startSession(session, cwd);
+		if (!started) {
+			// Clean up the tab's resources on error
+			this.closeTab(entry);
+			return null;
+		}
+
+		return entry.tab;
+	}
+
+	/**
+	 * Recreate saved tabs, showing each pane's old output above a marker
+	 * before starting its shell in the last known working directory
+	 */
+	private async restoreTabs(state: TerminalViewState): Promise<void> {
+		const container = this.terminalContainer;
+		if (!container || !state.tabs) {
+			return;
+		}
+
+		const restored: TabEntry[] = [];
+		const startDirectories = new Map<TerminalSession, string | null>();
+
+		for (const savedTab of state.tabs) {
+			const layout = mapPaneLayout(savedTab.layout, (pane) => {
+				const session = this.createSession(container, pane.profile);
+				session.restoreScrollback(pane.scrollback);
+				startDirectories.set(session, pane.cwd);
+				return session;
+			});
+
+			const entry = this.addTab(layout, savedTab.activePane);
+			if (entry) {
+				restored.push(entry);
+			}
+		}
+
+		const activeEntry = restored[state.activeTab ?? 0];
+		if (activeEntry) {
+			this.activateTab(activeEntry);
+		}
+
+		// Start shells one by one; a failed pane keeps its restored output
+		for (const [session, cwd] of startDirectories) {
+			await this.startSession(session, cwd);
+		}
+	}
+
+	/**
+	 * Add a tab header and panes for an already created layout, and activate it
+	 */
+	private addTab(layout: PaneLayout<TerminalSession>, activePane: number): TabEntry | null {
+		if (!this.tabBar || !this.terminalContainer) {
+			return null;
+		}
+
+		const tab = new TerminalTab(this.terminalContainer, layout, (parentEl, paneProfile) =>
+			this.createSession(parentEl, paneProfile), activePane
+		);
+
+		// Tab header: title plus [x]
+		const tabEl = createDiv('terminal-tab');
+		this.tabBar.insertBefore(tabEl, this.newTabBtn);
+		const iconEl = tabEl.createSpan('terminal-tab-icon');
+		const titleEl = tabEl.createSpan('terminal-tab-title');
+		const closeEl = tabEl.createSpan({
+			cls: 'terminal-tab-close',
+			text: '×',
+			attr: { 'aria-label': 'Close terminal' },
 		});
-		this.shellEventListeners = [];
 
-		// Stop shell
-		if (this.shellManager?.isRunning()) {
-			if (this.plugin.settings.warnBeforeClosingRunningProcess) {
-				// TODO: Add confirmation dialog
-				console.log('Closing terminal with running process');
+		const entry: TabEntry = { tab, tabEl, iconEl, titleEl, listeners: [] };
+		this.updateTabHeader(entry);
+
+		const selectHandler = () => {
+			this.activateTab(entry);
+		};
+
+		const closeHandler = (e: Event) => {
+			e.stopPropagation();
+			this.closeTab(entry);
+		};
+
+		tabEl.addEventListener('click', selectHandler);
+		closeEl.addEventListener('click', closeHandler);
+		entry.listeners = [
+			{ element: tabEl, type: 'click', handler: selectHandler },
+			{ element: closeEl, type: 'click', handler: closeHandler },
+		];
+
+		// The tab title and shell selector follow the focused pane
+		tab.on('active-change', () => {
+			this.updateTabHeader(entry);
+			if (entry === this.activeTab) {
+				this.syncShellSelector();
+			}
+		});
+
+		tab.on('layout-change', () => {
+			this.observeSessions();
+			tab.fitAll();
+			this.app.workspace.requestSaveLayout();
+		});
+
+		// Closing the last pane closes the tab
+		tab.on('empty', () => {
+			this.closeTab(entry);
+		});
+
+		this.tabs.push(entry);
+		this.activateTab(entry);
+		this.observeSessions();
+		this.app.workspace.requestSaveLayout();
+
+		return entry;
+	}
+
+	/**
+	 * Close a tab, stopping only the shells of its panes
+	 */
+	closeTab(entry: TabEntry): void {
+		const index = this.tabs.indexOf(entry);
+		if (index === -1) {
+			return;
+		}
+
+		this.tabs.splice(index, 1);
+		this.disposeTab(entry);
+		this.observeSessions();
+		this.app.workspace.requestSaveLayout();
+
+		if (this.activeTab === entry) {
+			this.activeTab = null;
+			const next = this.tabs[Math.min(index, this.tabs.length - 1)];
+			if (next) {
+				this.activateTab(next);
+			}
+		}
+	}
+
+	/**
+	 * Show the given tab and hide all others
+	 */
+	private activateTab(entry: TabEntry): void {
+		if (!this.tabs.includes(entry)) {
+			return;
+		}
+
+		this.activeTab = entry;
+		for (const other of this.tabs) {
+			const isActive = other === entry;
+			other.tabEl.toggleClass('is-active', isActive);
+			if (!isActive) {
+				other.tab.hide();
 			}
-			this.shellManager.stop();
 		}
 
-		// Dispose xterm
-		this.xtermManager?.dispose();
-		this.xtermManager = null;
-		this.shellManager = null;
+		entry.tab.show();
+		entry.tab.getActiveSession().focus();
+		this.syncShellSelector();
 	}
 
 	/**
-	 * Switch to a different shell profile
-	 * Protected against race conditions and includes timeout
+	 * Move to the next (1) or previous (-1) tab, wrapping around
 	 */
-	private async switchShell(profile: ShellProfile): Promise<void> {
-		// Prevent concurrent shell switches
-		if (!this.shellManager || this.switchInProgress) {
+	cycleTab(direction: 1 | -1): void {
+		if (this.tabs.length === 0) {
 			return;
 		}
 
-		this.switchInProgress = true;
+		const index = this.activeTab ? this.tabs.indexOf(this.activeTab) : 0;
+		const nextIndex = (index + direction + this.tabs.length) % this.tabs.length;
+		this.activateTab(this.tabs[nextIndex]);
+	}
 
-		try {
-			return new Promise<void>((resolve, reject) => {
-				if (!this.shellManager) {
-					reject(new Error('Shell manager not initialized'));
-					return;
-				}
+	/**
+	 * Open a new tab with the profile currently chosen in the shell selector
+	 */
+	async createTabWithSelectedProfile(): Promise<void> {
+		const profile = this.getSelectedProfile();
+		if (profile) {
+			await this.createTab(profile);
+		}
+	}
+
+	/**
+	 * Close the active tab
+	 */
+	closeActiveTab(): void {
+		if (this.activeTab) {
+			this.closeTab(this.activeTab);
+		}
+	}
+
+	/**
+	 * Open a new tab with the default profile in a directory
+	 */
+	async openTabInDirectory(cwd: string): Promise<void> {
+		const profile = this.getDefaultProfile();
+		if (!profile) {
+			new Notice('No shell profile to open a terminal with');
+			return;
+		}
+		await this.createTab(profile, cwd);
+	}
+
+	/**
+	 * Split the focused pane of the active tab, starting the same profile in the new pane
+	 */
+	async splitActivePane(direction: SplitDirection): Promise<void> {
+		const tab = this.activeTab?.tab;
+		if (!tab) {
+			return;
+		}
+
+		const session = tab.split(direction);
+		const started = await this.startSession(session);
+		if (!started) {
+			tab.closePane(session, false);
+			return;
+		}
+		session.focus();
+	}
+
+	/**
+	 * Close the focused pane of the active tab
+	 */
+	closeActivePane(): void {
+		const tab = this.activeTab?.tab;
+		if (tab) {
+			tab.closePane(tab.getActiveSession(), this.plugin.settings.warnBeforeClosingRunningProcess);
+		}
+	}
 
-				// 5 second timeout for shell to exit
-				const timeoutId = setTimeout(() => {
-					if (this.shellManager) {
-						this.shellManager.off('exit', onExit);
-					}
-					reject(new Error('Shell switch timeout - shell did not exit cleanly'));
-				}, 5000);
-
-				// Listen for exit event to ensure clean shutdown
-				const onExit = () => {
-					clearTimeout(timeoutId);
-
-					if (!this.shellManager) {
-						reject(new Error('Shell manager not initialized'));
-						return;
-					}
-
-					// Start the new shell
-					const startShell = async () => {
-						try {
-							await this.shellManager!.start(profile, this.getWorkingDirectory());
-							resolve();
-						} catch (error) {
-							reject(error);
-						}
-					};
-					startShell();
-				};
-
-				// If shell is running, wait for it to exit
-				if (this.shellManager.isRunning()) {
-					this.shellManager.once('exit', onExit);
-					this.shellManager.stop();
-				} else {
-					// Shell not running, start immediately
-					clearTimeout(timeoutId);
-					const startShell = async () => {
-						try {
-							await this.shellManager!.start(profile, this.getWorkingDirectory());
-							resolve();
-						} catch (error) {
-							reject(error);
-						}
-					};
-					startShell();
+	/**
+	 * Move focus to the next (1) or previous (-1) pane of the active tab
+	 */
+	cyclePane(direction: 1 | -1): void {
+		this.activeTab?.tab.cyclePane(direction);
+	}
+
+	/**
+	 * Scroll the focused pane to the previous (-1) or next (1) command
+	 */
+	scrollToCommand(direction: 1 | -1): void {
+		const session = this.getActiveSession();
+		if (session && !session.scrollToCommand(direction)) {
+			new Notice(direction === 1 ? 'No next command' : 'No previous command');
+		}
+	}
+
+	/**
+	 * Select the output of the command at the top of the focused pane
+	 */
+	selectCommandOutput(): void {
+		const session = this.getActiveSession();
+		if (session && !session.selectCommandOutput()) {
+			new Notice('No command output to select. Commands are tracked when shell integration is enabled.');
+		}
+	}
+
+	/**
+	 * Copy the output of the focused pane's last finished command
+	 */
+	async copyLastCommandOutput(): Promise<void> {
+		const output = this.getActiveSession()?.getLastCommandOutput();
+		if (output === null || output === undefined) {
+			new Notice('No finished command found. Commands are tracked when shell integration is enabled.');
+			return;
+		}
+
+		await navigator.clipboard.writeText(output);
+		new Notice('Command output copied');
+	}
+
+	/**
+	 * Show the output batching and flow control counters of the focused pane
+	 */
+	async showOutputStats(): Promise<void> {
+		const session = this.getActiveSession();
+		const stats = session ? await session.getOutputStats() : null;
+		if (!session || !stats) {
+			new Notice('No running shell in this pane');
+			return;
+		}
+
+		console.log(`Output statistics of session ${session.id}:`, stats);
+		new Notice([
+			'Terminal output statistics',
+			`Read: ${stats.charsRead} characters in ${stats.chunksRead} chunks`,
+			`Sent: ${stats.batchesSent} batches`,
+			`Unacknowledged: ${stats.unackedChars} characters`,
+			`Paused: ${stats.paused ? 'yes' : 'no'} (${stats.pauseCount} times so far)`,
+		].join('\n'), 10000);
+	}
+
+	/**
+	 * Show the banner while the PTY host uses the pipe backend
+	 */
+	private updateBackendBanner(): void {
+		const banner = this.backendBanner;
+		if (!banner) {
+			return;
+		}
+
+		const ptyManager = this.plugin.ptyManager;
+		banner.empty();
+		if (ptyManager.getBackend() !== 'pipe') {
+			banner.hide();
+			return;
+		}
+
+		banner.createEl('strong', { text: 'Limited terminal. ' });
+		banner.createSpan({
+			text: 'node-pty could not be loaded, so shells run without a real terminal: ' +
+				'input is sent a line at a time, prompts, colours and full-screen programs ' +
+				'may be missing, and resizing has no effect. Code blocks and simple commands still work. ' +
+				(process.platform === 'win32'
+					? 'Ctrl+C cannot interrupt commands; close the tab to stop one.'
+					: 'Ctrl+C interrupts the running command, but may also end a shell that is not interactive.'),
+		});
+		const reason = ptyManager.getFallbackReason();
+		if (reason) {
+			banner.createDiv({ cls: 'terminal-backend-banner-reason', text: reason });
+		}
+		banner.show();
+	}
+
+	/**
+	 * Create a session configured from the plugin settings
+	 */
+	private createSession(parentEl: HTMLElement, profile: ShellProfile): TerminalSession {
+		const session = new TerminalSession(parentEl, {
+			profile,
+			xtermOptions: {
+				fontFamily: this.plugin.settings.fontFamily,
+				fontSize: this.plugin.settings.fontSize,
+				theme: this.getTheme(),
+				scrollback: this.plugin.settings.scrollbackLines,
+			},
+			ptyManager: this.plugin.ptyManager,
+			clearOnExit: this.plugin.settings.clearTerminalOnShellExit,
+			shellIntegration: this.plugin.settings.enableShellIntegration,
+		});
+
+		session.on('error', (error: Error) => {
+			console.error('Shell error:', error);
+			new Notice(`Terminal error: ${error.message}`);
+		});
+
+		session.on('profile-change', () => {
+			const entry = this.tabs.find((t) => t.tab.getSessions().includes(session));
+			if (entry && entry.tab.getActiveSession() === session) {
+				this.updateTabHeader(entry);
+				if (entry === this.activeTab) {
+					this.syncShellSelector();
 				}
+			}
+		});
+
+		return session;
+	}
+
+	/**
+	 * Start a session's shell, reporting failures to the user
+	 * @param cwd - Preferred working directory; the profile's directory or the
+	 *   vault is used if it is not given or no longer exists
+	 * @returns Whether the shell started
+	 */
+	private async startSession(session: TerminalSession, cwd?: string | null): Promise<boolean> {
+		try {
+			await session.start(cwd && this.isDirectory(cwd)
+				? cwd
+				: this.getProfileDirectory(session.getProfile()) ?? this.getWorkingDirectory());
+			return true;
+		} catch (error) {
+			console.error('Failed to start shell:', error);
+			new Notice('Failed to start terminal. Check console for details.');
+			return false;
+		}
+	}
+
+	/**
+	 * Remove a tab's DOM listeners and dispose its panes
+	 */
+	private disposeTab(entry: TabEntry): void {
+		entry.listeners.forEach(({ element, type, handler }) => {
+			element.removeEventListener(type, handler);
+		});
+		entry.listeners = [];
+		entry.tab.dispose(this.plugin.settings.warnBeforeClosingRunningProcess);
+		entry.tabEl.remove();
+	}
+
+	/**
+	 * Focused pane of the active tab
+	 */
+	private getActiveSession(): TerminalSession | null {
+		return this.activeTab?.tab.getActiveSession() ?? null;
+	}
+
+	/**
+	 * Profile configured as default, falling back to the first profile
+	 */
+	private getDefaultProfile(): ShellProfile | null {
+		return this.plugin.profileManager.getDefaultProfile(this.profiles);
+	}
+
+	/**
+	 * Profile selected in the shell selector, falling back to the default profile
+	 */
+	private getSelectedProfile(): ShellProfile | null {
+		const selected = this.shellSelector?.value;
+		return this.profiles.find((p) => p.id === selected) ?? this.getDefaultProfile();
+	}
+
+	/**
+	 * Reload the profiles after they were edited in the settings
+	 * Running sessions keep the profile they were started with.
+	 */
+	async updateProfiles(): Promise<void> {
+		this.profiles = await this.plugin.getProfiles();
+		this.renderShellSelector();
+		this.tabs.forEach((entry) => this.updateTabHeader(entry));
+	}
+
+	/**
+	 * Fill the shell selector with the profiles
+	 */
+	private renderShellSelector(): void {
+		const shellSelector = this.shellSelector;
+		if (!shellSelector) {
+			return;
+		}
+
+		shellSelector.empty();
+		this.profiles.forEach((profile) => {
+			shellSelector.createEl('option', {
+				text: profile.name,
+				value: profile.id ?? '',
 			});
-		} finally {
-			this.switchInProgress = false;
+		});
+
+		if (this.getActiveSession()) {
+			this.syncShellSelector();
+		} else {
+			shellSelector.value = this.getDefaultProfile()?.id ?? '';
+		}
+	}
+
+	/**
+	 * Reflect the focused pane's profile in the shell selector
+	 */
+	private syncShellSelector(): void {
+		const session = this.getActiveSession();
+		if (this.shellSelector && session) {
+			this.shellSelector.value = this.findListedProfile(session.getProfile())?.id ?? '';
 		}
 	}
 
+	/**
+	 * Show the focused pane's profile name and icon on its tab
+	 */
+	private updateTabHeader(entry: TabEntry): void {
+		const session = entry.tab.getActiveSession();
+		const profile = this.findListedProfile(session.getProfile()) ?? session.getProfile();
+
+		entry.titleEl.setText(session.getTitle());
+		entry.iconEl.empty();
+		setIcon(entry.iconEl, profile.icon || 'terminal');
+		if (profile.color) {
+			entry.iconEl.style.color = profile.color;
+		} else {
+			entry.iconEl.style.removeProperty('color');
+		}
+	}
+
+	/**
+	 * Profile in the settings a session's profile was started from
+	 * Sessions restored from before profiles had ids are matched by their shell.
+	 */
+	private findListedProfile(profile: ShellProfile): ShellProfile | null {
+		return this.profiles.find((p) => profile.id !== undefined && p.id === profile.id)
+			?? this.profiles.find((p) => isSameProfile(p, profile))
+			?? this.profiles.find((p) => p.shell === profile.shell)
+			?? null;
+	}
+
 	/**
 	 * Setup resize handling with ResizeObserver or fallback to window resize
 	 */
@@ -341,10 +834,9 @@ export class TerminalView extends ItemView {
 		// Try to use ResizeObserver (modern browsers)
 		if (typeof ResizeObserver !== 'undefined') {
 			try {
-				this.resizeObserver = new ResizeObserver(() => {
-					this.handleResize();
+				this.resizeObserver = new ResizeObserver((entries) => {
+					this.handleResize(entries.map((entry) => entry.target));
 				});
-				this.resizeObserver.observe(this.terminalContainer);
 			} catch (error) {
 				console.warn('Failed to observe terminal container resize:', error);
 				this.setupFallbackResize();
@@ -355,6 +847,22 @@ export class TerminalView extends ItemView {
 		}
 	}
 
+	/**
+	 * Observe every pane's container so each one is fitted on its own resize
+	 */
+	private observeSessions(): void {
+		if (!this.resizeObserver) {
+			return;
+		}
+
+		this.resizeObserver.disconnect();
+		for (const entry of this.tabs) {
+			for (const session of entry.tab.getSessions()) {
+				this.resizeObserver.observe(session.containerEl);
+			}
+		}
+	}
+
 	/**
 	 * Fallback resize handling using window resize events
 	 */
@@ -365,12 +873,20 @@ export class TerminalView extends ItemView {
 
 	/**
 	 * Handle terminal resize with proper debouncing
+	 * @param targets - Resized pane containers; all panes of the active tab when omitted
 	 */
-	private handleResize(): void {
-		if (!this.xtermManager || !this.terminalContainer) {
+	private handleResize(targets?: Element[]): void {
+		if (!this.terminalContainer || !this.activeTab) {
 			return;
 		}
 
+		// Hidden tabs are fitted when they are shown again
+		for (const session of this.activeTab.tab.getSessions()) {
+			if (!targets || targets.includes(session.containerEl)) {
+				this.pendingResizeSessions.add(session);
+			}
+		}
+
 		// Cancel pending resize if already scheduled
 		if (this.pendingResizeFrame !== null) {
 			cancelAnimationFrame(this.pendingResizeFrame);
@@ -379,7 +895,8 @@ export class TerminalView extends ItemView {
 		// Schedule new resize
 		this.pendingResizeFrame = requestAnimationFrame(() => {
 			this.pendingResizeFrame = null;
-			this.shellManager?.resize();
+			this.pendingResizeSessions.forEach((session) => session.fit());
+			this.pendingResizeSessions.clear();
 		});
 	}
 
@@ -402,17 +919,10 @@ export class TerminalView extends ItemView {
 	 */
 	private getWorkingDirectory(): string {
 		try {
-			// Type-safe access to vault path
-			const adapter = this.app.vault.adapter;
-			if ('basePath' in adapter && typeof adapter.basePath === 'string') {
-				// Validate path exists and is accessible
-				const fs = require('fs');
-				if (fs.existsSync(adapter.basePath)) {
-					const stats = fs.statSync(adapter.basePath);
-					if (stats.isDirectory()) {
-						return adapter.basePath;
-					}
-				}
+			// Validate path exists and is accessible
+			const vaultPath = getVaultPath(this.app);
+			if (vaultPath && this.isDirectory(vaultPath)) {
+				return vaultPath;
 			}
 		} catch (error) {
 			console.warn('Could not determine vault path:', error);
@@ -423,16 +933,151 @@ export class TerminalView extends ItemView {
 	}
 
 	/**
-	 * Get the xterm manager instance
+	 * Start directory configured on a profile, if it exists
+	 * Placeholders such as {note-dir} refer to the active note.
+	 */
+	private getProfileDirectory(profile: ShellProfile): string | null {
+		if (!profile.cwd) {
+			return null;
+		}
+
+		const dir = expandWorkingDirectory(this.app, profile.cwd, this.app.workspace.getActiveFile());
+		if (!dir || !this.isDirectory(dir)) {
+			console.warn(`Working directory of profile "${profile.name}" not found:`, dir);
+			return null;
+		}
+		return dir;
+	}
+
+	/**
+	 * Check that a path exists and is a directory
+	 */
+	private isDirectory(dirPath: string): boolean {
+		try {
+			const fs = require('fs');
+			return fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Get a running shell to send commands to, opening a tab if needed
+	 * @param profile - Required shell; a running session of it is focused,
+	 *   otherwise a new tab is opened. Without it the focused pane is used,
+	 *   or a tab with the default shell when nothing is running.
+	 * @param launch - Required working directory and extra environment.
+	 *   A running session already in that directory with that environment
+	 *   is reused, otherwise a new tab is started with them.
+	 */
+	async ensureShellManager(profile?: ShellProfile, launch: LaunchOptions = {}): Promise<ShellManager | null> {
+		const { cwd, env } = launch;
+
+		if (!profile && !cwd && !env) {
+			const shellManager = this.getShellManager();
+			if (shellManager?.isRunning()) {
+				return shellManager;
+			}
+		} else {
+			// Without a required shell, keep using the focused pane's shell
+			const base = profile ?? this.getActiveSession()?.getProfile()
+				?? this.getDefaultProfile();
+			if (!base) {
+				return null;
+			}
+			profile = env ? { ...base, env: { ...base.env, ...env } } : base;
+
+			const wanted = profile;
+			const session = this.findSession((s) =>
+				s.getShellManager().isRunning()
+				&& isSameProfile(s.getProfile(), wanted)
+				&& (!cwd || isSamePath(s.getCwd(), cwd))
+			);
+			if (session) {
+				this.focusSession(session);
+				return session.getShellManager();
+			}
+		}
+
+		const tabProfile = profile ?? this.getDefaultProfile();
+		if (!tabProfile) {
+			return null;
+		}
+
+		const tab = await this.createTab(tabProfile, cwd);
+		return tab?.getActiveSession().getShellManager() ?? null;
+	}
+
+	/**
+	 * Find a session, preferring the focused pane and then the active tab
+	 */
+	private findSession(predicate: (session: TerminalSession) => boolean): TerminalSession | null {
+		const active = this.getActiveSession();
+		if (active && predicate(active)) {
+			return active;
+		}
+
+		const ordered = this.activeTab
+			? [this.activeTab, ...this.tabs.filter((t) => t !== this.activeTab)]
+			: this.tabs;
+		for (const entry of ordered) {
+			const session = entry.tab.getSessions().find(predicate);
+			if (session) {
+				return session;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Show the tab containing a session and focus its pane
+	 */
+	private focusSession(session: TerminalSession): void {
+		const entry = this.tabs.find((t) => t.tab.getSessions().includes(session));
+		if (!entry) {
+			return;
+		}
+		this.activateTab(entry);
+		entry.tab.setActiveSession(session);
+		session.focus();
+	}
+
+	/**
+	 * Get the focused pane's xterm manager instance
 	 */
 	getXtermManager(): XtermManager | null {
-		return this.xtermManager;
+		return this.getActiveSession()?.getXtermManager() ?? null;
 	}
 
 	/**
-	 * Get the shell manager instance
+	 * Get the focused pane's shell manager instance
 	 */
 	getShellManager(): ShellManager | null {
-		return this.shellManager;
+		return this.getActiveSession()?.getShellManager() ?? null;
+	}
+}
+
+/**
+ * Same shell with the same arguments and environment
+ */
+function isSameProfile(a: ShellProfile, b: ShellProfile): boolean {
+	return a.shell === b.shell
+		&& JSON.stringify(a.args ?? []) === JSON.stringify(b.args ?? [])
+		&& JSON.stringify(sortedEntries(a.env)) === JSON.stringify(sortedEntries(b.env));
+}
+
+function sortedEntries(env?: { [key: string]: string }): Array<[string, string]> {
+	return Object.entries(env ?? {}).sort(([x], [y]) => x.localeCompare(y));
+}
+
+function isSamePath(a: string | null, b: string): boolean {
+	if (!a) {
+		return false;
 	}
+	const path = require('path');
+	const normalize = (p: string) => {
+		const resolved = path.resolve(p);
+		return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+	};
+	return normalize(a) === normalize(b);
 }
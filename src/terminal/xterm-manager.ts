@@ -1,5 +1,6 @@
-import { Terminal } from '@xterm/xterm';
+import { IDecoration, IDecorationOptions, IMarker, Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
+import { SerializeAddon } from '@xterm/addon-serialize';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import { WebglAddon } from '@xterm/addon-webgl';
 
@@ -17,13 +18,14 @@ export interface XtermOptions {
  *
  * Responsibilities:
  * - Initialize and configure xterm.js instance
- * - Manage terminal addons (fit, web-links, webgl)
+ * - Manage terminal addons (fit, serialize, web-links, webgl)
  * - Handle terminal rendering and user input
  * - Provide interface for writing output and reading input
  */
 export class XtermManager {
 	private terminal: Terminal;
 	private fitAddon: FitAddon;
+	private serializeAddon: SerializeAddon;
 	private containerElement: HTMLElement | null = null;
 
 	constructor(options: XtermOptions = {}) {
@@ -41,6 +43,10 @@ export class XtermManager {
 		this.fitAddon = new FitAddon();
 		this.terminal.loadAddon(this.fitAddon);
 
+		// Serialize addon - used to persist scrollback across restarts
+		this.serializeAddon = new SerializeAddon();
+		this.terminal.loadAddon(this.serializeAddon);
+
 		// Web links addon - makes URLs clickable
 		const webLinksAddon = new WebLinksAddon();
 		this.terminal.loadAddon(webLinksAddon);
@@ -97,9 +103,10 @@ export class XtermManager {
 
 	/**
 	 * Write data to the terminal
+	 * @param callback Called once xterm has parsed the data
 	 */
-	write(data: string): void {
-		this.terminal.write(data);
+	write(data: string, callback?: () => void): void {
+		this.terminal.write(data, callback);
 	}
 
 	/**
@@ -109,6 +116,14 @@ export class XtermManager {
 		this.terminal.writeln(data);
 	}
 
+	/**
+	 * Paste text as if the user pasted it (uses bracketed paste when the
+	 * shell has enabled it); the result is delivered through onData
+	 */
+	paste(data: string): void {
+		this.terminal.paste(data);
+	}
+
 	/**
 	 * Clear the terminal screen
 	 */
@@ -116,6 +131,21 @@ export class XtermManager {
 		this.terminal.clear();
 	}
 
+	/**
+	 * Serialize the buffer (including scrollback) into a string of escape
+	 * sequences that reproduces it when written back with write()
+	 * Only the normal buffer's text is kept: terminal modes and a full-screen
+	 * program's screen belong to the shell that set them.
+	 */
+	serialize(): string {
+		try {
+			return this.serializeAddon.serialize({ excludeModes: true, excludeAltBuffer: true });
+		} catch (error) {
+			console.error('Failed to serialize terminal buffer:', error);
+			return '';
+		}
+	}
+
 	/**
 	 * Listen for user input (key presses)
 	 * Returns a disposable function to remove the listener
@@ -125,6 +155,90 @@ export class XtermManager {
 		return () => disposable.dispose();
 	}
 
+	/**
+	 * Handle an OSC escape sequence (ESC ] <ident> ; <data> BEL) as the
+	 * output is parsed; the handler runs with the cursor where the sequence appeared
+	 * Returns a disposable function to remove the handler
+	 */
+	registerOscHandler(ident: number, handler: (data: string) => void): () => void {
+		const disposable = this.terminal.parser.registerOscHandler(ident, (data) => {
+			handler(data);
+			return true;
+		});
+		return () => disposable.dispose();
+	}
+
+	/**
+	 * Mark the cursor's current line; the marker follows the line as the
+	 * buffer scrolls and is disposed when the line leaves the scrollback
+	 */
+	registerMarker(): IMarker | null {
+		return this.terminal.registerMarker(0) ?? null;
+	}
+
+	/**
+	 * Decorate a buffer line; the decoration is removed with its marker
+	 */
+	registerDecoration(options: IDecorationOptions): IDecoration | null {
+		return this.terminal.registerDecoration(options) ?? null;
+	}
+
+	/**
+	 * Buffer line the cursor is on
+	 */
+	getCursorLine(): number {
+		const buffer = this.terminal.buffer.active;
+		return buffer.baseY + buffer.cursorY;
+	}
+
+	/**
+	 * Buffer line shown at the top of the viewport
+	 */
+	getViewportTopLine(): number {
+		return this.terminal.buffer.active.viewportY;
+	}
+
+	/**
+	 * Whether the viewport shows the end of the buffer
+	 */
+	isScrolledToBottom(): boolean {
+		const buffer = this.terminal.buffer.active;
+		return buffer.viewportY >= buffer.baseY;
+	}
+
+	/**
+	 * Scroll so the buffer line is at the top of the viewport
+	 */
+	scrollToLine(line: number): void {
+		this.terminal.scrollToLine(line);
+	}
+
+	/**
+	 * Select whole buffer lines, inclusive
+	 */
+	selectLines(start: number, end: number): void {
+		this.terminal.selectLines(start, end);
+	}
+
+	/**
+	 * Text of buffer lines, inclusive; lines wrapped by the terminal are joined
+	 */
+	getText(start: number, end: number): string {
+		const buffer = this.terminal.buffer.active;
+		let text = '';
+		for (let i = start; i <= end; i++) {
+			const line = buffer.getLine(i);
+			if (!line) {
+				break;
+			}
+			if (i > start && !line.isWrapped) {
+				text += '\n';
+			}
+			text += line.translateToString(true);
+		}
+		return text;
+	}
+
 	/**
 	 * Listen for terminal resize events
 	 * Returns a disposable function to remove the listener
@@ -0,0 +1,56 @@
+// OSC (ESC ] ... BEL or ST), DCS/SOS/PM/APC strings, CSI sequences and
+// two-character escapes, in that order of precedence
+const ESCAPE_SEQUENCE_PATTERN = new RegExp([
+	'\\x1b\\][^\\x07\\x1b]*(?:\\x07|\\x1b\\\\)',
+	'\\x1b[PX^_][^\\x1b]*\\x1b\\\\',
+	'\\x1b\\[[0-?]*[ -/]*[@-~]',
+	'\\x1b[ -/]*[0-~]',
+].join('|'), 'g');
+
+// Control characters other than tab and newline
+const CONTROL_CHARACTER_PATTERN = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+/**
+ * Remove ANSI escape sequences (colors, cursor movement, titles, ...)
+ */
+export function stripAnsi(text: string): string {
+	return text.replace(ESCAPE_SEQUENCE_PATTERN, '');
+}
+
+/**
+ * Turn raw terminal output into plain text as it would read on screen
+ * - Escape sequences are removed
+ * - A carriage return starts the line over (progress bars keep their last state)
+ * - Backspaces delete the previous character
+ */
+export function toPlainText(output: string): string {
+	return stripAnsi(output)
+		.split('\n')
+		.map((line) => {
+			// Text after the last carriage return overwrites the line; a trailing
+			// one just ends a CRLF line
+			const segments = line.replace(/\r+$/, '').split('\r');
+			let text = '';
+			for (const segment of segments) {
+				text = segment + text.slice(segment.length);
+			}
+			return applyBackspaces(text).replace(CONTROL_CHARACTER_PATTERN, '');
+		})
+		.join('\n');
+}
+
+function applyBackspaces(line: string): string {
+	if (!line.includes('\b')) {
+		return line;
+	}
+
+	const chars: string[] = [];
+	for (const char of line) {
+		if (char === '\b') {
+			chars.pop();
+		} else {
+			chars.push(char);
+		}
+	}
+	return chars.join('');
+}
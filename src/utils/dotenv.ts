@@ -0,0 +1,63 @@
+// KEY=value with an optional `export ` prefix
+const LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/;
+
+/**
+ * Parse a `.env` file
+ * - Blank lines and lines starting with # are ignored
+ * - Single-quoted values are taken literally
+ * - Double-quoted values may span lines and support \n, \t, \" and \\
+ * - Unquoted values end at ` #` (inline comment) and are trimmed
+ */
+export function parseDotenv(content: string): Record<string, string> {
+	const env: Record<string, string> = {};
+	const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = LINE_PATTERN.exec(lines[i]);
+		if (!match || lines[i].trim().startsWith('#')) {
+			continue;
+		}
+
+		const key = match[1];
+		let value = match[2];
+		const quote = value[0];
+
+		if (quote === '"' || quote === '\'') {
+			// Collect lines until the closing quote
+			let raw = value.slice(1);
+			let end = findClosingQuote(raw, quote);
+			while (end === -1 && i + 1 < lines.length) {
+				raw += '\n' + lines[++i];
+				end = findClosingQuote(raw, quote);
+			}
+			value = end === -1 ? raw : raw.slice(0, end);
+			if (quote === '"') {
+				value = value.replace(/\\([nrt"\\])/g, (_, char: string) => {
+					switch (char) {
+						case 'n': return '\n';
+						case 'r': return '\r';
+						case 't': return '\t';
+						default: return char;
+					}
+				});
+			}
+		} else {
+			value = value.replace(/\s+#.*$/, '').trim();
+		}
+
+		env[key] = value;
+	}
+
+	return env;
+}
+
+function findClosingQuote(text: string, quote: string): number {
+	for (let i = 0; i < text.length; i++) {
+		if (quote === '"' && text[i] === '\\') {
+			i++;
+		} else if (text[i] === quote) {
+			return i;
+		}
+	}
+	return -1;
+}
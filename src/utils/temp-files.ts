@@ -0,0 +1,105 @@
+// Resolved once per session by getTempDir()
+let tempDir: string | null = null;
+
+/**
+ * Directory for files the plugin generates at runtime (shell integration
+ * scripts, helper commands), shared by every vault of the current user
+ *
+ * Shells run these files, so the directory must be private: on POSIX it is
+ * created with mode 0700 and only used if it is a real directory owned by
+ * the current user that nobody else can write to. If another user got to
+ * the usual name first, a fresh mkdtemp directory is used instead.
+ * @throws When no private directory can be created
+ */
+export function getTempDir(): string {
+	if (tempDir) {
+		return tempDir;
+	}
+
+	const fs = require('fs');
+	const os = require('os');
+	const path = require('path');
+
+	// The system temp directory is already per user on Windows
+	if (process.platform === 'win32') {
+		const dir: string = path.join(os.tmpdir(), 'obsidian-code-unblock-terminal');
+		fs.mkdirSync(dir, { recursive: true });
+		tempDir = dir;
+		return dir;
+	}
+
+	const name = `obsidian-code-unblock-terminal-${os.userInfo().username}`;
+	const preferred: string = path.join(os.tmpdir(), name);
+	try {
+		fs.mkdirSync(preferred, { mode: 0o700 });
+	} catch {
+		// Exists already; checked below
+	}
+
+	let dir = preferred;
+	if (!isPrivate(preferred)) {
+		console.warn(`Temp directory ${preferred} is not private; using a new one`);
+		dir = fs.mkdtempSync(`${preferred}-`);
+	}
+	tempDir = dir;
+	return dir;
+}
+
+/**
+ * Write a file in the temp directory unless it is already up to date
+ * A file that is not a regular file of the current user, or that others may
+ * write to, is replaced.
+ * @param relativePath Path below the temp directory
+ * @param mode File permissions, e.g. 0o755 for scripts run from PATH
+ * @returns Absolute path of the file
+ */
+export function writeTempFile(relativePath: string, content: string, mode?: number): string {
+	const fs = require('fs');
+	const path = require('path');
+	const filePath = path.join(getTempDir(), relativePath);
+
+	let current: string | null = null;
+	try {
+		if (isPrivate(filePath)) {
+			current = fs.readFileSync(filePath, 'utf8');
+		} else {
+			fs.rmSync(filePath, { force: true, recursive: true });
+		}
+	} catch {
+		// Not written yet
+	}
+
+	if (current !== content) {
+		fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+		fs.writeFileSync(filePath, content, { encoding: 'utf8', mode });
+	}
+	if (mode !== undefined) {
+		// writeFileSync only applies the mode to new files
+		fs.chmodSync(filePath, mode);
+	}
+	return filePath;
+}
+
+/**
+ * Whether a path is a directory or regular file (not a symlink) owned by the
+ * current user that no one else can write to; always true on Windows
+ */
+function isPrivate(filePath: string): boolean {
+	if (process.platform === 'win32') {
+		return true;
+	}
+
+	const fs = require('fs');
+	try {
+		const stats = fs.lstatSync(filePath);
+		const isDirectory = stats.isDirectory();
+		if (!isDirectory && !stats.isFile()) {
+			return false;
+		}
+		// Directories must be closed to others entirely, files to writes
+		const forbidden = isDirectory ? 0o077 : 0o022;
+		return stats.uid === process.getuid!() && (stats.mode & forbidden) === 0;
+	} catch {
+		return false;
+	}
+}